@@ -1,38 +1,34 @@
-import type { ActionType } from '../types';
+import type { ActionType, ActionTypeId } from '../types';
 import type { ActionHandler, ActionHandlerContext } from './baseActionHandler';
 import { LookAtActionHandler } from './lookAtActionHandler';
 import { IterateActionHandler } from './iterateActionHandler';
 import { ScheduleActionHandler } from './scheduleActionHandler';
 import { EvaluateActionHandler } from './evaluateActionHandler';
 import { MemorizeActionHandler } from './memorizeActionHandler';
+import { DoActionHandler } from './doActionHandler';
+import { ImproveActionHandler } from './improveActionHandler';
+import { CustomActionHandler } from './customActionHandler';
+import { ActionTypeRegistry } from '../config/actionTypeRegistry';
 
 export class ActionHandlerFactory {
 	static async createHandler(
-		actionType: ActionType | null, 
+		actionType: ActionTypeId | null, 
 		context: ActionHandlerContext
 	): Promise<ActionHandler> {
 		let handler: ActionHandler;
 
-		switch (actionType) {
-			case 'look-at':
-				handler = new LookAtActionHandler(context);
-				break;
-			case 'iterate':
-				handler = new IterateActionHandler(context);
-				break;
-			case 'schedule':
-				handler = new ScheduleActionHandler(context);
-				break;
-			case 'evaluate':
-				handler = new EvaluateActionHandler(context);
-				break;
-			case 'memorize':
-				handler = new MemorizeActionHandler(context);
-				break;
-			default:
-				// Default to look-at if action type is unknown or null
-				handler = new LookAtActionHandler(context);
-				break;
+		if (actionType !== null && ActionTypeRegistry.isBuiltIn(actionType)) {
+			handler = this.createBuiltInHandler(actionType, context);
+		} else {
+			// Custom action types are defined in settings
+			const customDefinition = actionType !== null
+				? ActionTypeRegistry.getCustomDefinition(context.plugin.settings, actionType)
+				: null;
+
+			// Default to look-at if action type is unknown or null
+			handler = customDefinition
+				? new CustomActionHandler(context, customDefinition)
+				: new LookAtActionHandler(context);
 		}
 
 		// Initialize the handler if it has an initialize method
@@ -42,4 +38,23 @@ export class ActionHandlerFactory {
 
 		return handler;
 	}
+
+	private static createBuiltInHandler(actionType: ActionType, context: ActionHandlerContext): ActionHandler {
+		switch (actionType) {
+			case 'look-at':
+				return new LookAtActionHandler(context);
+			case 'do':
+				return new DoActionHandler(context);
+			case 'iterate':
+				return new IterateActionHandler(context);
+			case 'schedule':
+				return new ScheduleActionHandler(context);
+			case 'improve':
+				return new ImproveActionHandler(context);
+			case 'evaluate':
+				return new EvaluateActionHandler(context);
+			case 'memorize':
+				return new MemorizeActionHandler(context);
+		}
+	}
 }
\ No newline at end of file
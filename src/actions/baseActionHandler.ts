@@ -1,7 +1,8 @@
 import type { App, TFile } from 'obsidian';
 import type { MarkdownRenderChild } from 'obsidian';
 
-import type { SeeYouAgainPlugin } from '../types';
+import type { QueueShortcutAction, SeeYouAgainPlugin } from '../types';
+import { DateUtils } from '../utils/dateUtils';
 
 export interface ActionHandlerContext {
 	app: App;
@@ -14,7 +15,9 @@ export interface ActionHandlerContext {
 	onJumpToNote: () => Promise<void>;
 	onRemoveContext: () => Promise<void>;
 	onDeleteNote: () => Promise<void>;
-	createButton: (container: HTMLElement, text: string, onClick: () => void | Promise<void>) => HTMLElement;
+	recordUndo: (description: string, revert: () => Promise<void>) => void;
+	/** Buttons given a shortcut can also be triggered with its key and show it as a hint */
+	createButton: (container: HTMLElement, text: string, onClick: () => void | Promise<void>, shortcut?: QueueShortcutAction) => HTMLElement;
 	showError: (message: string) => void;
 }
 
@@ -66,9 +69,32 @@ export abstract class BaseActionHandler implements ActionHandler {
 	}
 
 	protected createStandardButtons(buttonContainer: HTMLElement): void {
-		this.context.createButton(buttonContainer, 'Jump to Note', this.context.onJumpToNote);
-		this.context.createButton(buttonContainer, 'Remove Context', this.context.onRemoveContext);
-		this.context.createButton(buttonContainer, 'Next', this.context.onNext);
+		this.context.createButton(buttonContainer, 'Jump to Note', this.context.onJumpToNote, 'jump-to-note');
+		this.context.createButton(buttonContainer, 'Remove Context', this.context.onRemoveContext, 'remove-context');
+		this.context.createButton(buttonContainer, 'Next', this.context.onNext, 'next');
+	}
+
+	/**
+	 * Append text as a dated bullet point to the end of the note, undoable from the queue
+	 */
+	protected async appendDatedBullet(text: string, undoDescription: string): Promise<void> {
+		const note = this.context.currentNote;
+		const currentContent = await this.context.app.vault.read(note);
+
+		// Stamp with the current human day in yyyy-mm-dd format, like seen dates
+		const dateStr = DateUtils.getCurrentHumanDay();
+
+		const appended = `\n\n- ${dateStr} ${text.trim()}`;
+		await this.context.app.vault.modify(note, currentContent + appended);
+
+		this.context.recordUndo(undoDescription, async () => {
+			// Strip the appended bullet again
+			const content = await this.context.app.vault.read(note);
+			const index = content.lastIndexOf(appended);
+			if (index !== -1) {
+				await this.context.app.vault.modify(note, content.substring(0, index) + content.substring(index + appended.length));
+			}
+		});
 	}
 
 	cleanup(): void {
@@ -0,0 +1,83 @@
+import { Setting } from 'obsidian';
+
+import type { CustomActionTypeDefinition } from '../types';
+import type { ActionHandlerContext } from './baseActionHandler';
+import { BaseActionHandler } from './baseActionHandler';
+
+export class CustomActionHandler extends BaseActionHandler {
+	private definition: CustomActionTypeDefinition;
+	private inputText = '';
+
+	constructor(context: ActionHandlerContext, definition: CustomActionTypeDefinition) {
+		super(context);
+		this.definition = definition;
+	}
+
+	getPromptText(): string {
+		return this.definition.prompt || this.definition.label;
+	}
+
+	async renderNoteContent(container: HTMLElement): Promise<void> {
+		await super.renderNoteContent(container);
+
+		if (!this.definition.textInput) {
+			return;
+		}
+
+		// Optional text box, appended to the note on "Done"
+		const inputContainer = container.createEl('div');
+		inputContainer.className = 'evaluation-container';
+
+		new Setting(inputContainer)
+			.setName('Your notes')
+			.setDesc('Added as a bullet point to the end of the note when you click Done')
+			.addTextArea((textArea) => {
+				textArea.setPlaceholder('Write something here...');
+				textArea.setValue(this.inputText);
+				textArea.onChange((value) => {
+					this.inputText = value;
+				});
+			});
+	}
+
+	createButtons(buttonContainer: HTMLElement): void {
+		this.definition.buttons.forEach(button => {
+			switch (button) {
+				case 'jump':
+					this.context.createButton(buttonContainer, 'Jump to Note', this.context.onJumpToNote, 'jump-to-note');
+					break;
+				case 'remove':
+					this.context.createButton(buttonContainer, 'Remove Context', this.context.onRemoveContext, 'remove-context');
+					break;
+				case 'delete':
+					this.context.createButton(buttonContainer, 'Delete Note', this.context.onDeleteNote);
+					break;
+				case 'next':
+					this.context.createButton(buttonContainer, 'Next', this.context.onNext, 'next');
+					break;
+				case 'done':
+					this.context.createButton(buttonContainer, 'Done', async () => {
+						await this.handleDone();
+					});
+					break;
+			}
+		});
+	}
+
+	private async handleDone(): Promise<void> {
+		try {
+			if (this.definition.textInput && this.inputText.trim()) {
+				await this.appendDatedBullet(this.inputText, this.definition.label);
+			}
+
+			await this.context.onNext();
+		} catch (error) {
+			this.context.showError('Error saving your notes. Please try again.');
+		}
+	}
+
+	cleanup(): void {
+		super.cleanup(); // Clean up render children
+		this.inputText = '';
+	}
+}
@@ -30,7 +30,7 @@ export class EvaluateActionHandler extends BaseActionHandler {
 	}
 
 	createButtons(buttonContainer: HTMLElement): void {
-		this.context.createButton(buttonContainer, 'Jump to Note', this.context.onJumpToNote);
+		this.context.createButton(buttonContainer, 'Jump to Note', this.context.onJumpToNote, 'jump-to-note');
 		this.context.createButton(buttonContainer, 'Save and Next', async () => {
 			await this.handleDone();
 		});
@@ -43,22 +43,9 @@ export class EvaluateActionHandler extends BaseActionHandler {
 		}
 
 		try {
-			// Read the current note content
-			const currentContent = await this.context.app.vault.read(this.context.currentNote);
-			
-			// Get current date in yyyy-mm-dd format
-			const today = new Date();
-			const dateStr = today.getFullYear().toString() + '-' +
-				String(today.getMonth() + 1).padStart(2, '0') + '-' +
-				String(today.getDate()).padStart(2, '0');
-			
 			// Add the evaluation as a bullet point with date
-			const evaluationBullet = `- ${dateStr} ${this.evaluationText.trim()}`;
-			const newContent = currentContent + '\n\n' + evaluationBullet;
-			
-			// Write back to the note
-			await this.context.app.vault.modify(this.context.currentNote, newContent);
-			
+			await this.appendDatedBullet(this.evaluationText, 'evaluation');
+
 			// Proceed to next note
 			await this.context.onNext();
 		} catch (error) {
@@ -0,0 +1,108 @@
+import type { EventRef, TAbstractFile } from 'obsidian';
+
+import { BaseActionHandler } from './baseActionHandler';
+import { HashUtils } from '../utils/hashUtils';
+import { NoteRenderer } from '../utils/noteRenderer';
+
+export class ImproveActionHandler extends BaseActionHandler {
+	private baselineHash = '';
+	private isModified = false;
+	private doneButton: HTMLElement | null = null;
+	private modifyEventRef: EventRef | null = null;
+	private isJumpingToNote = false;
+
+	async initialize(): Promise<void> {
+		const note = this.context.currentNote;
+		const stateManager = this.context.plugin.stateManager;
+		const currentHash = this.hashNoteBody(await this.context.app.vault.read(note));
+
+		// Keep the baseline from when the improve action started, even across jumping to the note and back
+		const existingBaseline = stateManager.getImproveBaseline(note.path);
+		if (existingBaseline === null) {
+			stateManager.setImproveBaseline(note.path, currentHash);
+			this.baselineHash = currentHash;
+		} else {
+			this.baselineHash = existingBaseline;
+		}
+		this.isModified = currentHash !== this.baselineHash;
+
+		// Watch for edits made while the action is shown
+		this.modifyEventRef = this.context.app.vault.on('modify', (file: TAbstractFile) => {
+			if (file.path === this.context.currentNote.path) {
+				void this.checkForModification();
+			}
+		});
+	}
+
+	getPromptText(): string {
+		return 'Improve this note';
+	}
+
+	createButtons(buttonContainer: HTMLElement): void {
+		this.context.createButton(buttonContainer, 'Jump to Note', async () => {
+			await this.handleJumpToNote();
+		}, 'jump-to-note');
+		this.context.createButton(buttonContainer, 'Remove Context', this.context.onRemoveContext, 'remove-context');
+		this.context.createButton(buttonContainer, 'Next', this.context.onNext, 'next');
+		this.doneButton = this.context.createButton(buttonContainer, 'Done', async () => {
+			await this.handleDone();
+		});
+		this.updateDoneButton();
+	}
+
+	private async checkForModification(): Promise<void> {
+		try {
+			const content = await this.context.app.vault.read(this.context.currentNote);
+			this.isModified = this.hashNoteBody(content) !== this.baselineHash;
+			this.updateDoneButton();
+		} catch (error) {
+			// Note may have been deleted in the meantime
+		}
+	}
+
+	/**
+	 * Hash only the body, so frontmatter written by the plugin itself (e.g. seen dates) doesn't count as an edit
+	 */
+	private hashNoteBody(content: string): string {
+		return HashUtils.hashContent(NoteRenderer.removeFrontmatter(content));
+	}
+
+	private updateDoneButton(): void {
+		if (!this.doneButton) {return;}
+
+		this.doneButton.toggleAttribute('disabled', !this.isModified);
+		this.doneButton.setAttribute('title', this.isModified ? '' : 'Change something in the note first');
+	}
+
+	private async handleJumpToNote(): Promise<void> {
+		this.isJumpingToNote = true;
+		try {
+			await this.context.onJumpToNote();
+		} finally {
+			this.isJumpingToNote = false;
+		}
+	}
+
+	private async handleDone(): Promise<void> {
+		if (!this.isModified) {
+			this.context.showError('Improve the note before clicking Done.');
+			return;
+		}
+
+		await this.context.onNext();
+	}
+
+	cleanup(): void {
+		super.cleanup(); // Clean up render children
+		// Leaving the note in any way other than jumping to it ends the improve action
+		if (!this.isJumpingToNote) {
+			this.context.plugin.stateManager.clearImproveBaseline(this.context.currentNote.path);
+		}
+		if (this.modifyEventRef) {
+			this.context.app.vault.offref(this.modifyEventRef);
+			this.modifyEventRef = null;
+		}
+		this.doneButton = null;
+		this.isModified = false;
+	}
+}
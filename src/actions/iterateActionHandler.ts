@@ -6,9 +6,9 @@ export class IterateActionHandler extends BaseActionHandler {
 	}
 
 	createButtons(buttonContainer: HTMLElement): void {
-		this.context.createButton(buttonContainer, 'Jump to Note', this.context.onJumpToNote);
-		this.context.createButton(buttonContainer, 'Remove Context', this.context.onRemoveContext);
+		this.context.createButton(buttonContainer, 'Jump to Note', this.context.onJumpToNote, 'jump-to-note');
+		this.context.createButton(buttonContainer, 'Remove Context', this.context.onRemoveContext, 'remove-context');
 		this.context.createButton(buttonContainer, 'Delete Note', this.context.onDeleteNote);
-		this.context.createButton(buttonContainer, 'Next', this.context.onNext);
+		this.context.createButton(buttonContainer, 'Next', this.context.onNext, 'next');
 	}
 }
\ No newline at end of file
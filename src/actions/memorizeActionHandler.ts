@@ -2,7 +2,17 @@ import type { Grade, Card } from 'ts-fsrs';
 
 import { BaseActionHandler } from './baseActionHandler';
 import { FSRSService } from '../services/fsrsService';
+import { ReviewLogService } from '../services/reviewLogService';
 import { NoteService } from '../noteService';
+import { SchedulingParametersConfig } from '../config/schedulingParameters';
+import type { Cloze } from '../utils/clozeParser';
+import { ClozeParser } from '../utils/clozeParser';
+import type { QACard } from '../utils/qaCardParser';
+import { QACardParser } from '../utils/qaCardParser';
+import { ContextUtils } from '../utils/contextUtils';
+
+/** Sub-card of a note that is asked the other way round: answer shown, title (or question) recalled */
+const REVERSE_CARD_ID = 'reverse';
 
 export class MemorizeActionHandler extends BaseActionHandler {
 	private isBodyRevealed = false;
@@ -10,16 +20,21 @@ export class MemorizeActionHandler extends BaseActionHandler {
 	private hasPartialReveal = false;
 	private contentBeforeSeparator = '';
 	private fullContent = '';
+	private clozes: Cloze[] = [];
+	private qaCards: QACard[] = [];
+	private activeCardId: string | null = null;
+	private hasReverseCard = false;
 	private fsrsService: FSRSService | undefined;
 	private currentCard: Card | null = null;
 
 	async initialize(): Promise<void> {
-		// Initialize FSRS service
-		const noteService = new NoteService(this.context.app);
-		this.fsrsService = new FSRSService(noteService);
+		// Initialize FSRS service with the scheduling parameters of the active context
+		const noteService = new NoteService(this.context.app, this.context.plugin.contextIndex);
+		const parameters = SchedulingParametersConfig.resolve(this.context.plugin.settings, this.context.sanitizedContext);
+		this.fsrsService = new FSRSService(noteService, parameters);
 
-		// Load FSRS card data
-		this.currentCard = await this.fsrsService.loadCard(this.context.currentNote);
+		// Load FSRS card data for the active context
+		this.currentCard = await this.fsrsService.loadCard(this.context.currentNote, this.context.sanitizedContext);
 
 		// Check if this is a fill-in-the-blank note (filename starts with ">")
 		this.isFillInBlank = this.context.currentNote.basename.startsWith('>');
@@ -28,7 +43,49 @@ export class MemorizeActionHandler extends BaseActionHandler {
 		if (!this.isFillInBlank) {
 			const noteContent = await this.context.app.vault.read(this.context.currentNote);
 			this.checkForPartialReveal(noteContent);
+
+			// Cloze deletions, or otherwise question/answer lines, are reviewed one at a time, each with its own card
+			const isReverseEnabled = this.isReverseEnabled(noteService);
+			const { subCardSources } = this.context.plugin.settings;
+			this.clozes = ClozeParser.parse(this.fullContent, subCardSources.includes('highlight'));
+			if (this.clozes.length === 0) {
+				const qaCards = QACardParser.parse(this.fullContent, subCardSources);
+				const reverseCards = isReverseEnabled
+					? qaCards.map(card => ({ id: `${card.id}-${REVERSE_CARD_ID}`, front: card.back, back: card.front }))
+					: [];
+				this.qaCards = [...qaCards, ...reverseCards];
+			}
+
+			const subCardIds = this.getSubCardIds();
+			if (subCardIds.length > 0) {
+				this.activeCardId = this.fsrsService.pickCard(this.context.currentNote, this.context.sanitizedContext, subCardIds);
+			} else if (isReverseEnabled) {
+				// The note's own card asks it forward, the reverse card is kept next to it as a sub-card
+				this.hasReverseCard = true;
+				this.activeCardId = this.fsrsService.pickCard(this.context.currentNote, this.context.sanitizedContext, [null, REVERSE_CARD_ID]);
+			}
+			if (this.activeCardId !== null) {
+				this.currentCard = await this.fsrsService.loadCard(this.context.currentNote, this.context.sanitizedContext, this.activeCardId);
+			}
+		}
+	}
+
+	/**
+	 * Reverse cards are enabled per note in frontmatter, or otherwise for a context and its sub-contexts in the settings
+	 */
+	private isReverseEnabled(noteService: NoteService): boolean {
+		const noteOption = noteService.getReverseOption(this.context.currentNote);
+		if (typeof noteOption === 'boolean') {
+			return noteOption;
 		}
+		return this.context.plugin.settings.reverseCardContexts
+			.some(context => ContextUtils.isSameOrDescendant(this.context.sanitizedContext, context));
+	}
+
+	private getSubCardIds(): string[] {
+		return this.clozes.length > 0
+			? this.clozes.map(cloze => cloze.id)
+			: this.qaCards.map(card => card.id);
 	}
 
 	private checkForPartialReveal(content: string): void {
@@ -60,6 +117,12 @@ export class MemorizeActionHandler extends BaseActionHandler {
 	}
 
 	getPromptText(): string {
+		if (this.activeCardId !== null && this.clozes.length > 0) {
+			return 'think of the hidden part';
+		}
+		if (this.activeCardId === REVERSE_CARD_ID && this.hasReverseCard) {
+			return 'think of the title';
+		}
 		return 'think of the answer';
 	}
 
@@ -68,6 +131,15 @@ export class MemorizeActionHandler extends BaseActionHandler {
 			if (this.isFillInBlank) {
 				// For fill-in-the-blank notes, show title with blank and full body immediately
 				await this.renderFillInBlank(container);
+			} else if (this.activeCardId !== null && this.clozes.length > 0) {
+				// For cloze notes, show the body with the active cloze blanked out
+				await this.renderCloze(container, this.activeCardId);
+			} else if (this.activeCardId !== null && this.hasReverseCard) {
+				// For the reverse card, show the answer part and ask for the title
+				await this.renderReverse(container);
+			} else if (this.activeCardId !== null) {
+				// For notes with question/answer lines, show only the question of the active card
+				await this.renderQACard(container, this.activeCardId);
 			} else if (this.hasPartialReveal) {
 				// For partial reveal mode, show content before '---'
 				await this.renderPartialReveal(container);
@@ -80,7 +152,7 @@ export class MemorizeActionHandler extends BaseActionHandler {
 
 				const revealButtonEl = this.context.createButton(container, 'Reveal', () => {
 					void this.revealNoteBody(container);
-				});
+				}, 'reveal');
 
 				(this as { revealButton?: HTMLElement }).revealButton = revealButtonEl;
 				(this as { contentContainer?: HTMLElement }).contentContainer = container;
@@ -110,7 +182,71 @@ export class MemorizeActionHandler extends BaseActionHandler {
 
 		const revealButtonEl = this.context.createButton(container, 'Reveal', () => {
 			void this.revealFullContent(container);
-		});
+		}, 'reveal');
+
+		(this as { revealButton?: HTMLElement }).revealButton = revealButtonEl;
+		(this as { contentContainer?: HTMLElement }).contentContainer = container;
+	}
+
+	private async renderCloze(container: HTMLElement, clozeId: string): Promise<void> {
+		const { NoteRenderer } = await import('../utils/noteRenderer');
+
+		const filenameTitle = `# ${this.context.currentNote.basename}`;
+		const titleRenderChild = NoteRenderer.renderNoteContent(container, filenameTitle, this.context.currentNote, this.context.app, this.context.plugin);
+		this.renderChildren.push(titleRenderChild);
+
+		const maskedContent = ClozeParser.mask(this.fullContent, clozeId, this.isBodyRevealed);
+		const contentRenderChild = NoteRenderer.renderNoteContent(container, maskedContent, this.context.currentNote, this.context.app, this.context.plugin);
+		this.renderChildren.push(contentRenderChild);
+
+		if (this.isBodyRevealed) {
+			this.addSpacedRepetitionButtons(container);
+			return;
+		}
+
+		const revealButtonEl = this.context.createButton(container, 'Reveal', () => {
+			void this.revealCloze(container, clozeId);
+		}, 'reveal');
+
+		(this as { revealButton?: HTMLElement }).revealButton = revealButtonEl;
+		(this as { contentContainer?: HTMLElement }).contentContainer = container;
+	}
+
+	private async renderQACard(container: HTMLElement, cardId: string): Promise<void> {
+		const card = this.qaCards.find(qaCard => qaCard.id === cardId);
+		if (!card) {
+			return;
+		}
+		const { NoteRenderer } = await import('../utils/noteRenderer');
+
+		const filenameTitle = `# ${this.context.currentNote.basename}`;
+		const titleRenderChild = NoteRenderer.renderNoteContent(container, filenameTitle, this.context.currentNote, this.context.app, this.context.plugin);
+		this.renderChildren.push(titleRenderChild);
+
+		const frontRenderChild = NoteRenderer.renderNoteContent(container, card.front, this.context.currentNote, this.context.app, this.context.plugin);
+		this.renderChildren.push(frontRenderChild);
+
+		const revealButtonEl = this.context.createButton(container, 'Reveal', () => {
+			void this.revealQACard(container, card);
+		}, 'reveal');
+
+		(this as { revealButton?: HTMLElement }).revealButton = revealButtonEl;
+		(this as { contentContainer?: HTMLElement }).contentContainer = container;
+	}
+
+	private async renderReverse(container: HTMLElement): Promise<void> {
+		const { NoteRenderer } = await import('../utils/noteRenderer');
+
+		// The answer part is what comes after '---' in partial reveal notes, otherwise the whole body
+		const answer = this.hasPartialReveal
+			? this.fullContent.substring(this.fullContent.indexOf('---') + 3).trim()
+			: this.fullContent;
+		const answerRenderChild = NoteRenderer.renderNoteContent(container, answer, this.context.currentNote, this.context.app, this.context.plugin);
+		this.renderChildren.push(answerRenderChild);
+
+		const revealButtonEl = this.context.createButton(container, 'Reveal', () => {
+			void this.revealReverse(container);
+		}, 'reveal');
 
 		(this as { revealButton?: HTMLElement }).revealButton = revealButtonEl;
 		(this as { contentContainer?: HTMLElement }).contentContainer = container;
@@ -131,7 +267,7 @@ export class MemorizeActionHandler extends BaseActionHandler {
 
 		const revealButtonEl = this.context.createButton(container, 'Reveal', () => {
 			void this.revealFillInBlank(container);
-		});
+		}, 'reveal');
 
 		(this as { revealButton?: HTMLElement }).revealButton = revealButtonEl;
 		(this as { contentContainer?: HTMLElement }).contentContainer = container;
@@ -173,6 +309,64 @@ export class MemorizeActionHandler extends BaseActionHandler {
 		this.addSpacedRepetitionButtons(container);
 	}
 
+	private async revealCloze(container: HTMLElement, clozeId: string): Promise<void> {
+		if (this.isBodyRevealed) {return;}
+
+		this.isBodyRevealed = true;
+
+		// Clean up old render children before re-rendering with the answer highlighted
+		this.renderChildren.forEach(renderChild => {
+			try {
+				renderChild.unload();
+			} catch (error) {
+				console.error('Error unloading render child:', error);
+			}
+		});
+		this.renderChildren = [];
+
+		container.empty();
+		await this.renderCloze(container, clozeId);
+	}
+
+	private async revealQACard(container: HTMLElement, card: QACard): Promise<void> {
+		if (this.isBodyRevealed) {return;}
+
+		this.isBodyRevealed = true;
+
+		const revealButton = (this as { revealButton?: HTMLElement }).revealButton;
+		if (revealButton) {
+			revealButton.remove();
+		}
+
+		// Show the answer below the question
+		const { NoteRenderer } = await import('../utils/noteRenderer');
+		const backRenderChild = NoteRenderer.renderNoteContent(container, `---\n\n${card.back}`, this.context.currentNote, this.context.app, this.context.plugin);
+		this.renderChildren.push(backRenderChild);
+
+		this.addSpacedRepetitionButtons(container);
+	}
+
+	private async revealReverse(container: HTMLElement): Promise<void> {
+		if (this.isBodyRevealed) {return;}
+
+		this.isBodyRevealed = true;
+
+		const revealButton = (this as { revealButton?: HTMLElement }).revealButton;
+		if (revealButton) {
+			revealButton.remove();
+		}
+
+		// Show the title (and the front of partial reveal notes) below the answer
+		const { NoteRenderer } = await import('../utils/noteRenderer');
+		const front = this.hasPartialReveal && this.contentBeforeSeparator
+			? `\n\n${this.contentBeforeSeparator}`
+			: '';
+		const titleRenderChild = NoteRenderer.renderNoteContent(container, `---\n\n# ${this.context.currentNote.basename}${front}`, this.context.currentNote, this.context.app, this.context.plugin);
+		this.renderChildren.push(titleRenderChild);
+
+		this.addSpacedRepetitionButtons(container);
+	}
+
 	private async revealFillInBlank(container: HTMLElement): Promise<void> {
 		if (this.isBodyRevealed) {return;}
 
@@ -236,11 +430,28 @@ export class MemorizeActionHandler extends BaseActionHandler {
 		}
 
 		try {
+			const fsrsService = this.fsrsService;
+			const note = this.context.currentNote;
+			const sanitizedContext = this.context.sanitizedContext;
+			const cardId = this.activeCardId;
+			const previousCard = fsrsService.getCardState(note, sanitizedContext, cardId) !== null ? this.currentCard : null;
+
 			// Review the card with the given grade
-			const { card: updatedCard } = this.fsrsService.reviewCard(this.currentCard, grade);
+			const { card: updatedCard, log } = fsrsService.reviewCard(this.currentCard, grade);
+
+			// Save the updated card data for the active context (and sub-card) to frontmatter
+			// The other sub-cards of the note are stored as new cards, so they come up in later reviews
+			const siblingCardIds = (this.hasReverseCard ? [REVERSE_CARD_ID] : this.getSubCardIds()).filter(id => id !== cardId);
+			const createdCardIds = await fsrsService.saveCard(note, sanitizedContext, updatedCard, cardId, siblingCardIds);
 
-			// Save the updated card data to frontmatter
-			await this.fsrsService.saveCard(this.context.currentNote, updatedCard);
+			// Record the review in the plugin's review history
+			const logEntry = ReviewLogService.createEntry(note.path, sanitizedContext, log, updatedCard, cardId);
+			await this.context.plugin.reviewLog.append(logEntry);
+
+			this.context.recordUndo('review', async () => {
+				await fsrsService.restoreCard(note, sanitizedContext, previousCard, cardId, createdCardIds);
+				await this.context.plugin.reviewLog.removeEntry(logEntry.id);
+			});
 
 			// Update current card reference
 			this.currentCard = updatedCard;
@@ -261,25 +472,25 @@ export class MemorizeActionHandler extends BaseActionHandler {
 		// Create the four spaced repetition buttons with FSRS scoring
 		this.context.createButton(srButtonContainer, 'Wrong', async () => {
 			await this.scoreCard(1); // Grade.Again
-		});
+		}, 'grade-again');
 
 		this.context.createButton(srButtonContainer, 'Hard', async () => {
 			await this.scoreCard(2); // Grade.Hard
-		});
+		}, 'grade-hard');
 
 		this.context.createButton(srButtonContainer, 'Correct', async () => {
 			await this.scoreCard(3); // Grade.Good
-		});
+		}, 'grade-good');
 
 		this.context.createButton(srButtonContainer, 'Easy', async () => {
 			await this.scoreCard(4); // Grade.Easy
-		});
+		}, 'grade-easy');
 	}
 
 	createButtons(buttonContainer: HTMLElement): void {
 		// For memorize action, NO Done button - only the standard navigation buttons
-		this.context.createButton(buttonContainer, 'Jump to Note', this.context.onJumpToNote);
-		this.context.createButton(buttonContainer, 'Next', this.context.onNext);
+		this.context.createButton(buttonContainer, 'Jump to Note', this.context.onJumpToNote, 'jump-to-note');
+		this.context.createButton(buttonContainer, 'Next', this.context.onNext, 'next');
 	}
 
 	cleanup(): void {
@@ -289,6 +500,10 @@ export class MemorizeActionHandler extends BaseActionHandler {
 		this.hasPartialReveal = false;
 		this.contentBeforeSeparator = '';
 		this.fullContent = '';
+		this.clozes = [];
+		this.qaCards = [];
+		this.activeCardId = null;
+		this.hasReverseCard = false;
 		this.currentCard = null;
 	}
 }
\ No newline at end of file
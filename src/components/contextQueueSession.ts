@@ -0,0 +1,661 @@
+import type { App, KeymapEventHandler, Scope } from 'obsidian';
+import { TFile, ButtonComponent, DropdownComponent, Notice } from 'obsidian';
+
+import { NoteService } from '../noteService';
+import type { SeeYouAgainPlugin, ActionTypeId, QueueShortcutAction } from '../types';
+import type { ActionHandler, ActionHandlerContext } from '../actions/baseActionHandler';
+import { ActionHandlerFactory } from '../actions/actionHandlerFactory';
+import { ActionTypeScheduler } from '../scheduling/actionTypeScheduler';
+import { ActionTypeWeightsConfig } from '../config/actionTypeWeights';
+import type { UndoableQueue, UndoEntry, UndoStack } from '../state/undoStack';
+import { ContextUtils } from '../utils/contextUtils';
+import { RecurrenceService, RECURRENCE_OPTIONS } from '../services/recurrenceService';
+import { QueueShortcutsConfig } from '../config/queueShortcuts';
+import { SchedulingParametersConfig } from '../config/schedulingParameters';
+
+/**
+ * The surface a queue session is displayed in (the queue modal or the queue view)
+ */
+export interface ContextQueueHost {
+	contentEl: HTMLElement;
+	jumpToNote(note: TFile): Promise<void>;
+	changeContext(): void;
+	close(): void;
+	onNoteShown?(note: TFile): Promise<void>;
+}
+
+/**
+ * Queue of notes drawn from one or more contexts: picks notes, renders the matching action handler and tracks undo history.
+ * Shared between the queue modal and the queue view.
+ */
+export class ContextQueueSession implements UndoableQueue {
+	private noteService: NoteService;
+	private recurrenceService: RecurrenceService;
+	private currentNote: TFile | null = null;
+	private currentContext: string | null = null;
+	private currentActionType: ActionTypeId | null = null;
+	private currentActionHandler: ActionHandler | null = null;
+	private isJumpingToNote = false;
+	private goalAcknowledged = false;
+	/** Whether the current note was a new memorize card when it was shown, before any rating */
+	private isCurrentNoteNewCard = false;
+	/** Last undoable action on the current note, which also takes back the note's progress when undone */
+	private currentNoteUndoEntry: UndoEntry | null = null;
+	private shortcutButtons = new Map<QueueShortcutAction, HTMLElement>();
+	private shortcutRegistration: { scope: Scope; handler: KeymapEventHandler } | null = null;
+
+	constructor(
+		private app: App,
+		private plugin: SeeYouAgainPlugin,
+		private host: ContextQueueHost,
+		readonly sanitizedContexts: string[]
+	) {
+		this.noteService = new NoteService(app, plugin.contextIndex);
+		this.recurrenceService = new RecurrenceService(this.noteService);
+	}
+
+	/**
+	 * The undo history lives on the plugin, so it survives closing the queue to jump to a note and resuming it
+	 */
+	private get undoStack(): UndoStack {
+		return this.plugin.queueUndoStack;
+	}
+
+	/**
+	 * Human-readable name of the contexts in this queue
+	 */
+	get label(): string {
+		return this.sanitizedContexts.map(context => ContextUtils.hydrateContextKey(context)).join(' + ');
+	}
+
+	/**
+	 * Show the first note, resuming from a specific note if given
+	 */
+	async start(resumeNotePath: string | null): Promise<void> {
+		// Expose this queue session to the undo command
+		this.plugin.activeQueue = this;
+
+		// A fresh queue starts a new session; resuming continues towards the same goal
+		if (resumeNotePath === null || resumeNotePath === '') {
+			this.plugin.stateManager.update({ sessionStartTime: Date.now(), notesProcessedThisSession: 0 });
+			this.undoStack.clear();
+		}
+
+		if (resumeNotePath !== null && resumeNotePath !== '') {
+			// Try to load the specific note
+			const file = this.app.vault.getAbstractFileByPath(resumeNotePath);
+			if (file instanceof TFile) {
+				// Get the context and action type from frontmatter for resume case
+				const frontmatter = this.noteService.getFrontmatter(file);
+				const context = this.getQueueContexts().find(candidate => frontmatter[candidate]);
+
+				if (context !== undefined) {
+					this.currentNote = file;
+					this.currentContext = context;
+					this.currentActionType = frontmatter[context];
+
+					// Track the resumed action type
+					await this.plugin.actionTypeUsage.record(context, frontmatter[context]);
+
+					this.markNoteShown();
+					await this.loadActionType();
+					await this.render();
+					return;
+				}
+
+				// None of the contexts exist on this note anymore, clear the invalid state
+				this.plugin.stateManager.clearNavigationState();
+			}
+		}
+
+		// Otherwise load a random note
+		await this.loadRandomNote();
+	}
+
+	/**
+	 * Trigger the queue buttons with their shortcut keys while the host's scope is active
+	 */
+	registerShortcuts(scope: Scope): void {
+		const handler = scope.register([], null, (evt: KeyboardEvent) => {
+			// Leave typing in inputs (e.g. evaluate answers) and modified keys alone
+			if (evt.target instanceof HTMLInputElement || evt.target instanceof HTMLTextAreaElement || evt.target instanceof HTMLSelectElement) {
+				return true;
+			}
+			if (evt.ctrlKey || evt.metaKey || evt.altKey) {
+				return true;
+			}
+
+			const action = QueueShortcutsConfig.getAction(this.plugin.settings, evt.key);
+			const button = action !== null ? this.shortcutButtons.get(action) : undefined;
+			// Only buttons that are currently shown (e.g. grades only after revealing) can be triggered
+			if (button === undefined || !button.isConnected || button.hasAttribute('disabled')) {
+				return true;
+			}
+
+			button.click();
+			return false;
+		});
+		this.shortcutRegistration = { scope, handler };
+	}
+
+	/**
+	 * Clean up when the host closes
+	 */
+	destroy(): void {
+		// Clean up the current action handler
+		if (this.currentActionHandler && this.currentActionHandler.cleanup) {
+			this.currentActionHandler.cleanup();
+		}
+		this.currentActionHandler = null;
+
+		// The undo history is kept while the queue is closed to jump to a note, as the queue resumes afterwards
+		if (!this.isJumpingToNote) {
+			this.undoStack.clear();
+		}
+		this.shortcutButtons.clear();
+		if (this.shortcutRegistration) {
+			this.shortcutRegistration.scope.unregister(this.shortcutRegistration.handler);
+			this.shortcutRegistration = null;
+		}
+		if (this.plugin.activeQueue === this) {
+			this.plugin.activeQueue = null;
+		}
+	}
+
+	/**
+	 * The contexts notes are drawn from: the selected contexts and all of their sub-contexts
+	 */
+	private getQueueContexts(): string[] {
+		return this.noteService.expandWithDescendants(this.sanitizedContexts);
+	}
+
+	private async loadRandomNote(): Promise<void> {
+		try {
+			// Suggest a break once the session goal is reached
+			if (!this.goalAcknowledged && this.isSessionGoalReached()) {
+				this.showSessionGoalReachedMessage();
+				return;
+			}
+
+			// Contexts whose daily quota is used up don't show any more notes today
+			const queueContexts = this.getQueueContexts()
+				.filter(context => !this.plugin.dailyProgress.isNoteLimitReached(context));
+			if (queueContexts.length === 0) {
+				this.showQuotaReachedMessage();
+				return;
+			}
+			const memorizeBlockedContexts = queueContexts
+				.filter(context => this.plugin.dailyProgress.isMemorizeLimitReached(context));
+
+			const selectionOptions = {
+				memorizeBlockedContexts,
+				newCardsRemaining: this.plugin.dailyProgress.getNewCardsRemaining(),
+				reviewOrder: this.plugin.settings.reviewOrder,
+				getSchedulingParameters: (context: string) => SchedulingParametersConfig.resolve(this.plugin.settings, context)
+			};
+
+			// Get the most underpicked action type based on recent usage across the queue's contexts,
+			// among the action types that have notes to show
+			const actionTypeUsage = this.plugin.actionTypeUsage.getCombinedUsage(queueContexts);
+			const weights = ActionTypeWeightsConfig.resolveWeightsForContexts(this.plugin.settings, queueContexts);
+			const availableActionTypes = this.noteService.getAvailableActionTypes(queueContexts, selectionOptions);
+			const preferredActionType = ActionTypeScheduler.getMostUnderpickedActionType(actionTypeUsage, weights, availableActionTypes);
+
+			// Try to get a note with the preferred action type
+			const result = this.noteService.getRandomNoteFromContextsPrioritized(
+				queueContexts,
+				preferredActionType,
+				selectionOptions
+			);
+
+			if (!result) {
+				this.showNoNotesMessage();
+				return;
+			}
+
+			this.currentNote = result.file;
+			this.currentContext = result.context;
+			this.currentActionType = result.actionType;
+
+			// Track that this action type was used in the note's own context
+			await this.plugin.actionTypeUsage.record(result.context, result.actionType);
+
+			this.markNoteShown();
+			await this.loadActionType();
+			await this.render();
+		} catch (error) {
+			this.showError('Error loading note. Please try again.');
+		}
+	}
+
+	private async loadActionType(): Promise<void> {
+		if (!this.currentNote || this.currentContext === null || this.currentActionType === null) {
+			this.currentActionHandler = null;
+			return;
+		}
+
+		try {
+			// Clean up previous handler
+			if (this.currentActionHandler && this.currentActionHandler.cleanup) {
+				this.currentActionHandler.cleanup();
+			}
+
+			// Create action handler context
+			const context: ActionHandlerContext = {
+				app: this.app,
+				plugin: this.plugin,
+				currentNote: this.currentNote,
+				hydratedContext: ContextUtils.hydrateContextKey(this.currentContext),
+				sanitizedContext: this.currentContext,
+				onNext: () => this.handleNext(),
+				onChangeContext: () => this.host.changeContext(),
+				onJumpToNote: () => this.jumpToNote(),
+				onRemoveContext: () => this.removeContext(),
+				onDeleteNote: () => this.deleteNote(),
+				recordUndo: (description: string, revert: () => Promise<void>) => this.recordUndo(description, revert),
+				createButton: (container: HTMLElement, text: string, onClick: () => void | Promise<void>, shortcut?: QueueShortcutAction) => {
+					const button = new ButtonComponent(container);
+					button.setButtonText(text);
+					button.onClick(onClick);
+					if (shortcut !== undefined) {
+						this.addShortcutHint(button.buttonEl, shortcut);
+					}
+					return button.buttonEl;
+				},
+				showError: (message: string) => this.showError(message)
+			};
+
+			// Create the appropriate action handler
+			this.currentActionHandler = await ActionHandlerFactory.createHandler(this.currentActionType, context);
+		} catch (error) {
+			this.currentActionHandler = null;
+		}
+	}
+
+	/**
+	 * Bind a button to its shortcut and show the key on it
+	 */
+	private addShortcutHint(buttonEl: HTMLElement, shortcut: QueueShortcutAction): void {
+		const key = QueueShortcutsConfig.resolve(this.plugin.settings)[shortcut];
+		if (key === '') {
+			return;
+		}
+
+		this.shortcutButtons.set(shortcut, buttonEl);
+		const hint = buttonEl.createEl('span', { text: QueueShortcutsConfig.getKeyLabel(key) });
+		hint.className = 'queue-shortcut-hint';
+	}
+
+	private showNoNotesMessage(): void {
+		const { contentEl } = this.host;
+		contentEl.empty();
+
+		const header = contentEl.createEl('div');
+		header.className = 'context-note-viewer-no-notes';
+
+		header.createEl('h2', { text: 'No Notes Found' });
+		header.createEl('p', {
+			text: this.sanitizedContexts.length === 1
+				? `No notes found with the context "${this.label}".`
+				: `No notes found with the contexts "${this.label}".`
+		});
+
+		// Button row
+		const buttonContainer = contentEl.createEl('div');
+		buttonContainer.className = 'modal-button-row';
+
+		const closeButton = new ButtonComponent(buttonContainer);
+		closeButton.setButtonText('Close');
+		closeButton.onClick(() => this.host.close());
+	}
+
+	private showQuotaReachedMessage(): void {
+		const { contentEl } = this.host;
+		contentEl.empty();
+
+		const header = contentEl.createEl('div');
+		header.className = 'context-note-viewer-no-notes';
+
+		header.createEl('h2', { text: 'Daily Quota Reached' });
+		header.createEl('p', {
+			text: `You've seen all notes planned for today in "${this.label}". See you again tomorrow!`
+		});
+
+		const buttonContainer = contentEl.createEl('div');
+		buttonContainer.className = 'modal-button-row';
+
+		const closeButton = new ButtonComponent(buttonContainer);
+		closeButton.setButtonText('Close');
+		closeButton.onClick(() => this.host.close());
+	}
+
+	private showSessionGoalReachedMessage(): void {
+		const { contentEl } = this.host;
+		contentEl.empty();
+
+		const header = contentEl.createEl('div');
+		header.className = 'context-note-viewer-no-notes';
+
+		header.createEl('h2', { text: 'Session Goal Reached' });
+		header.createEl('p', {
+			text: `You worked through ${this.plugin.stateManager.get('notesProcessedThisSession')} notes. Take a break or keep going.`
+		});
+
+		const buttonContainer = contentEl.createEl('div');
+		buttonContainer.className = 'modal-button-row';
+
+		const keepGoingButton = new ButtonComponent(buttonContainer);
+		keepGoingButton.setButtonText('Keep Going');
+		keepGoingButton.onClick(async () => {
+			this.goalAcknowledged = true;
+			await this.loadRandomNote();
+		});
+
+		const closeButton = new ButtonComponent(buttonContainer);
+		closeButton.setButtonText('Close');
+		closeButton.setCta();
+		closeButton.onClick(() => this.host.close());
+	}
+
+	private isSessionGoalReached(): boolean {
+		const goal = this.plugin.settings.sessionGoal;
+		return goal > 0 && this.plugin.stateManager.get('notesProcessedThisSession') >= goal;
+	}
+
+	/**
+	 * Progress towards the session goal and the daily quotas of the selected contexts, e.g. "Session: 3 / 10 · Today: 4 / 20"
+	 */
+	private getProgressText(): string {
+		const parts: string[] = [];
+
+		const goal = this.plugin.settings.sessionGoal;
+		if (goal > 0) {
+			parts.push(`Session: ${this.plugin.stateManager.get('notesProcessedThisSession')} / ${goal}`);
+		}
+
+		for (const context of this.sanitizedContexts) {
+			const quota = this.plugin.dailyProgress.getQuota(context);
+			if (quota === null || quota.notesPerDay === null) {
+				continue;
+			}
+			const label = this.sanitizedContexts.length > 1 ? `Today (${ContextUtils.hydrateContextKey(context)})` : 'Today';
+			parts.push(`${label}: ${this.plugin.dailyProgress.getCount(context).notes} / ${quota.notesPerDay}`);
+		}
+
+		return parts.join(' · ');
+	}
+
+	private async render(): Promise<void> {
+		if (!this.currentNote || !this.currentActionHandler) { return; }
+
+		const { contentEl } = this.host;
+		contentEl.empty();
+		this.shortcutButtons.clear();
+
+		// Mark the note as seen in its context when displayed
+		try {
+			if (this.currentContext !== null) {
+				await this.noteService.markNoteSeen(this.currentNote, this.currentContext);
+			}
+		} catch (error) {
+			console.error('Failed to mark note as seen:', error);
+			// Continue rendering even if marking as seen fails
+		}
+
+		// Change Context button at the top
+		const buttonRow = contentEl.createEl('div');
+		buttonRow.className = 'context-note-viewer-button-row';
+
+		const changeContextButton = new ButtonComponent(buttonRow);
+		changeContextButton.setButtonText('Change Context');
+		changeContextButton.onClick(() => this.host.changeContext());
+		changeContextButton.buttonEl.className = 'change-context-button';
+
+		const undoButton = new ButtonComponent(buttonRow);
+		undoButton.setButtonText('Undo');
+		undoButton.setDisabled(!this.canUndo());
+		undoButton.onClick(() => this.undoLastAction());
+
+		const progressText = this.getProgressText();
+		if (progressText !== '') {
+			const progress = contentEl.createEl('div', { text: progressText });
+			progress.className = 'context-note-viewer-progress';
+		}
+
+		// Horizontal rule before prompt
+		contentEl.createEl('hr');
+
+		// Action-specific prompt as heading
+		const promptText = this.currentActionHandler.getPromptText();
+		const promptHeading = contentEl.createEl('h2');
+		promptHeading.textContent = promptText;
+		promptHeading.className = 'action-prompt-heading';
+
+		// Horizontal rule after prompt
+		contentEl.createEl('hr');
+
+		// Show which context the note was drawn from when the queue mixes several
+		if (this.currentContext !== null && this.getQueueContexts().length > 1) {
+			const contextLabel = contentEl.createEl('div', {
+				text: `Context: ${ContextUtils.hydrateContextKey(this.currentContext)}`
+			});
+			contextLabel.className = 'context-note-viewer-label';
+		}
+
+		// How soon the note may come up again in this context (memorize notes follow FSRS instead)
+		if (this.currentContext !== null && this.currentActionType !== 'memorize') {
+			this.renderRecurrenceSetting(contentEl, this.currentNote, this.currentContext);
+		}
+
+		// Note title (only for non-memorize actions, memorize handles its own heading)
+		if (this.currentActionType !== 'memorize') {
+			const header = contentEl.createEl('div');
+			header.className = 'base-modal-header';
+			const titleEl = header.createEl('h2', { text: this.currentNote.basename });
+			titleEl.className = 'base-modal-header-title';
+		}
+
+		// Note content (handled by action handler)
+		const previewContainer = contentEl.createEl('div');
+		previewContainer.className = 'context-note-viewer-preview';
+
+		await this.currentActionHandler.renderNoteContent(previewContainer);
+
+		// Buttons (handled by action handler)
+		const buttonContainer = contentEl.createEl('div');
+		buttonContainer.className = 'modal-button-row';
+
+		this.currentActionHandler.createButtons(buttonContainer);
+
+		if (this.host.onNoteShown) {
+			await this.host.onNoteShown(this.currentNote);
+		}
+	}
+
+	private renderRecurrenceSetting(container: HTMLElement, note: TFile, sanitizedContext: string): void {
+		const row = container.createEl('div');
+		row.className = 'context-note-viewer-recurrence';
+		row.createEl('span', { text: 'Show again: ' });
+
+		const recurrence = this.recurrenceService.getRecurrence(note, sanitizedContext);
+		const currentValue = RecurrenceService.toOptionValue(recurrence);
+
+		const dropdown = new DropdownComponent(row);
+		RECURRENCE_OPTIONS.forEach(option => {
+			dropdown.addOption(option.value, option.label);
+		});
+		// Keep custom intervals (set in frontmatter, or grown by an expanding rule) selectable
+		if (!RECURRENCE_OPTIONS.some(option => option.value === currentValue)) {
+			dropdown.addOption(currentValue, RecurrenceService.describe(recurrence));
+		}
+		dropdown.setValue(currentValue);
+		dropdown.onChange(async (value) => {
+			try {
+				await this.recurrenceService.setRecurrence(note, sanitizedContext, RecurrenceService.fromOptionValue(value));
+			} catch (error) {
+				this.showError('Error saving recurrence. Please try again.');
+			}
+		});
+	}
+
+	private async handleNext(): Promise<void> {
+		try {
+			await this.recordProgress();
+		} catch (error) {
+			console.error('Failed to record progress:', error);
+		}
+		await this.loadRandomNote();
+	}
+
+	/**
+	 * Remember what recording progress for the note just shown needs to know before the user acts on it
+	 */
+	private markNoteShown(): void {
+		this.currentNoteUndoEntry = null;
+		this.isCurrentNoteNewCard = this.currentNote !== null && this.currentContext !== null &&
+			this.currentActionType === 'memorize' && this.noteService.isNewCard(this.currentNote, this.currentContext);
+	}
+
+	/**
+	 * Count the note the user acted on (or moved past) towards the daily quotas and the session goal,
+	 * and grow its expanding recurrence interval. Undoing the action, or the skip, takes all of this back
+	 */
+	private async recordProgress(): Promise<void> {
+		if (!this.currentNote || this.currentContext === null || this.currentActionType === null) { return; }
+
+		const note = this.currentNote;
+		const context = this.currentContext;
+		const actionType = this.currentActionType;
+		const isNewCard = this.isCurrentNoteNewCard;
+
+		await this.plugin.dailyProgress.record(context, actionType, isNewCard);
+		this.plugin.stateManager.incrementNotesProcessed();
+
+		// Grow expanding recurrence intervals each time the note is done, unless its context was just removed
+		const previousRecurrence = this.recurrenceService.getRecurrence(note, context);
+		const growsRecurrence = actionType !== 'memorize' && previousRecurrence?.mode === 'expanding' &&
+			this.noteService.getFrontmatter(note)[context] !== undefined;
+		if (growsRecurrence) {
+			await this.recurrenceService.recordShown(note, context);
+		}
+
+		const revertProgress = async (): Promise<void> => {
+			await this.plugin.dailyProgress.remove(context, actionType, isNewCard);
+			this.plugin.stateManager.decrementNotesProcessed();
+			if (growsRecurrence) {
+				await this.recurrenceService.setRecurrence(note, context, previousRecurrence);
+			}
+		};
+
+		// Undoing the action on this note takes its progress back too; moving past it without acting gets its own entry
+		const lastEntry = this.undoStack.peek();
+		if (lastEntry !== null && lastEntry === this.currentNoteUndoEntry) {
+			const revertAction = lastEntry.revert;
+			lastEntry.revert = async (): Promise<void> => {
+				await revertAction();
+				await revertProgress();
+			};
+		} else {
+			this.recordUndo('skip', revertProgress);
+		}
+		this.currentNoteUndoEntry = null;
+	}
+
+	canUndo(): boolean {
+		return this.undoStack.canUndo();
+	}
+
+	/**
+	 * Revert the last recorded action and show its note again
+	 */
+	async undoLastAction(): Promise<void> {
+		const entry = this.undoStack.pop();
+		if (!entry) {
+			this.showError('Nothing to undo');
+			return;
+		}
+
+		try {
+			await entry.revert();
+
+			this.currentNote = entry.note;
+			this.currentContext = entry.context;
+			this.currentActionType = entry.actionType;
+			this.markNoteShown();
+			await this.loadActionType();
+			await this.render();
+
+			new Notice(`Undid ${entry.description} for "${entry.note.basename}"`);
+		} catch (error) {
+			this.showError('Error undoing last action. Please try again.');
+		}
+	}
+
+	private recordUndo(description: string, revert: () => Promise<void>): void {
+		if (!this.currentNote || this.currentContext === null || this.currentActionType === null) { return; }
+
+		const entry: UndoEntry = {
+			description,
+			note: this.currentNote,
+			context: this.currentContext,
+			actionType: this.currentActionType,
+			revert
+		};
+		this.undoStack.push(entry);
+		this.currentNoteUndoEntry = entry;
+	}
+
+	private async jumpToNote(): Promise<void> {
+		if (!this.currentNote) { return; }
+
+		this.isJumpingToNote = true;
+		try {
+			await this.host.jumpToNote(this.currentNote);
+		} catch (error) {
+			this.showError('Error opening note. Please try again.');
+		} finally {
+			this.isJumpingToNote = false;
+		}
+	}
+
+	private async removeContext(): Promise<void> {
+		if (!this.currentNote || this.currentContext === null) { return; }
+
+		try {
+			const note = this.currentNote;
+			const sanitizedContext = this.currentContext;
+			const removedActionType = this.noteService.getFrontmatter(note)[sanitizedContext];
+
+			await this.noteService.removeContext(note, sanitizedContext);
+			if (typeof removedActionType === 'string' && removedActionType !== '') {
+				this.recordUndo('context removal', () => this.noteService.restoreContext(note, sanitizedContext, removedActionType));
+			}
+			await this.handleNext(); // Load next note after removing context
+		} catch (error) {
+			this.showError('Error removing context. Please try again.');
+		}
+	}
+
+	private async deleteNote(): Promise<void> {
+		if (!this.currentNote) { return; }
+
+		// Confirm deletion
+		const confirmed = confirm(`Are you sure you want to delete the note "${this.currentNote.basename}"? This cannot be undone.`);
+		if (!confirmed) { return; }
+
+		try {
+			const note = this.currentNote;
+			await this.noteService.deleteNote(note);
+			// A deleted note neither counts towards the quotas nor can be undone back into the queue
+			this.undoStack.removeNote(note);
+			this.currentNoteUndoEntry = null;
+			await this.loadRandomNote();
+		} catch (error) {
+			this.showError('Error deleting note. Please try again.');
+		}
+	}
+
+	private showError(message: string): void {
+		new Notice(message);
+	}
+}
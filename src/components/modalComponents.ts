@@ -1,7 +1,7 @@
 import type { App } from 'obsidian';
 import { Setting } from 'obsidian';
 
-import type { ContextEntry, ActionType} from '../types';
+import type { ContextEntry, ActionTypeId, ActionOption } from '../types';
 import { ACTION_OPTIONS } from '../types';
 import { ContextInputSuggest } from './contextSuggest';
 
@@ -13,11 +13,18 @@ export class ContextFieldManager {
 	private suggestInstances: ContextInputSuggest[] = [];
 	private pastContexts: string[] = [];
 	private app: App;
-
-	constructor(app: App, container: HTMLElement, onChange: (entries: ContextEntry[]) => void) {
+	private actionOptions: ActionOption[];
+
+	constructor(
+		app: App,
+		container: HTMLElement,
+		onChange: (entries: ContextEntry[]) => void,
+		actionOptions: ActionOption[] = ACTION_OPTIONS
+	) {
 		this.app = app;
 		this.container = container;
 		this.onChangeCallback = onChange;
+		this.actionOptions = actionOptions;
 		this.initializeFields();
 	}
 
@@ -61,12 +68,15 @@ export class ContextFieldManager {
 				this.suggestInstances[index] = suggestions;
 			})
 			.addDropdown((dropdown) => {
-				ACTION_OPTIONS.forEach(option => {
+				this.actionOptions.forEach(option => {
 					dropdown.addOption(option.value, option.label);
 				});
 				dropdown.setValue(entry.action);
 				dropdown.onChange((value: string) => {
-					this.entries[index].action = value as ActionType;
+					const option = this.actionOptions.find(actionOption => actionOption.value === value);
+					if (option) {
+						this.entries[index].action = option.value;
+					}
 					this.onChangeCallback(this.entries);
 				});
 			});
@@ -119,7 +129,7 @@ export class ContextFieldManager {
 		});
 	}
 
-	addEntry(context: string, action: ActionType): void {
+	addEntry(context: string, action: ActionTypeId): void {
 		// Find empty entry or add new one
 		const emptyIndex = this.entries.findIndex(entry => entry.context.trim() === '');
 		if (emptyIndex >= 0) {
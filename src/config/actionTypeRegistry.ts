@@ -0,0 +1,84 @@
+import type { ActionOption, ActionType, ActionTypeId, CustomActionTypeDefinition, CustomActionTypeId, SeeYouAgainSettings } from '../types';
+import { ACTION_OPTIONS } from '../types';
+
+/**
+ * Lookup of all available action types: the built-in ones plus the custom ones defined in settings
+ */
+export class ActionTypeRegistry {
+	/**
+	 * Get all action types as dropdown options, built-in types first
+	 */
+	static getActionOptions(settings: SeeYouAgainSettings): ActionOption[] {
+		return [
+			...ACTION_OPTIONS,
+			...settings.customActionTypes.map(definition => ({ value: definition.id, label: definition.label }))
+		];
+	}
+
+	/**
+	 * Check if an action type is one of the built-in types
+	 */
+	static isBuiltIn(actionType: ActionTypeId): actionType is ActionType {
+		return ACTION_OPTIONS.some(option => option.value === actionType);
+	}
+
+	/**
+	 * Get the definition of a custom action type, if it exists
+	 */
+	static getCustomDefinition(settings: SeeYouAgainSettings, actionType: ActionTypeId): CustomActionTypeDefinition | null {
+		return settings.customActionTypes.find(definition => definition.id === actionType) ?? null;
+	}
+
+	/**
+	 * Create a custom action type definition with sensible defaults
+	 * Returns null if another action type already has the label; a label whose id is taken gets a numbered id
+	 */
+	static createCustomDefinition(settings: SeeYouAgainSettings, label: string): CustomActionTypeDefinition | null {
+		const trimmed = label.trim();
+		if (!trimmed) {
+			return null;
+		}
+
+		const options = this.getActionOptions(settings);
+		if (options.some(option => option.label.toLowerCase() === trimmed.toLowerCase())) {
+			return null;
+		}
+
+		// Different labels can produce the same id, e.g. "Read aloud" and "read-aloud"
+		const baseId = this.toId(trimmed);
+		let id = baseId;
+		for (let suffix = 2; options.some(option => option.value === id); suffix++) {
+			id = `${baseId}-${suffix}` as CustomActionTypeId;
+		}
+
+		return {
+			id,
+			label: trimmed,
+			prompt: trimmed,
+			buttons: ['jump', 'remove', 'next'],
+			textInput: false,
+			weight: 1
+		};
+	}
+
+	/**
+	 * Resolve a raw value (e.g. from a dropdown) to a built-in or defined custom action type, or null if it is neither
+	 */
+	static resolve(settings: SeeYouAgainSettings, value: string): ActionTypeId | null {
+		return this.getActionOptions(settings).find(option => option.value === value)?.value ?? null;
+	}
+
+	/**
+	 * Derive a dash-separated id from a label, matching the style of the built-in ids
+	 * Letters and digits of any script are kept, so labels like "перевод" get an id of their own
+	 */
+	private static toId(label: string): CustomActionTypeId {
+		return (label
+			.toLowerCase()
+			// Replace sequences of characters other than letters and digits with single dashes
+			.replace(/[^\p{L}\p{N}]+/gu, '-')
+			// Remove leading/trailing dashes
+			.replace(/^-+|-+$/g, '')
+			|| 'custom') as CustomActionTypeId;
+	}
+}
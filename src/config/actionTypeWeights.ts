@@ -1,17 +1,22 @@
-import type { ActionType } from '../types';
+import type { ActionTypeId, SeeYouAgainSettings } from '../types';
+import { ActionTypeRegistry } from './actionTypeRegistry';
+
+export type ActionTypeWeights = Record<string, number>;
 
 /**
- * Configurable weights for action types
+ * Default weights for action types
  * Higher numbers = more frequent selection
  * 
  * Example: if 'look-at' = 3 and 'iterate' = 2, then 'look-at' should appear 1.5x as often as 'iterate'
  * 
- * Edit these values to change the frequency of each action type:
+ * The weights actually used are configured in the settings tab (globally and per context)
  */
-export const ACTION_TYPE_WEIGHTS: Record<ActionType, number> = {
+export const DEFAULT_ACTION_TYPE_WEIGHTS: ActionTypeWeights = {
   'look-at': 3,
+  'do': 2,
   'iterate': 2,
   'schedule': 1,
+  'improve': 2,
   'evaluate': 2,
   'memorize': 3,
 };
@@ -20,44 +25,83 @@ export const ACTION_TYPE_WEIGHTS: Record<ActionType, number> = {
  * Utility functions for working with action type weights
  */
 export class ActionTypeWeightsConfig {
+  /**
+   * Resolve the weights to use for a context: per-context overrides on top of the global weights
+   * Custom action types take their global weight from their definition
+   */
+  static resolveWeights(settings: SeeYouAgainSettings, sanitizedContext?: string): ActionTypeWeights {
+    const contextOverrides: Partial<ActionTypeWeights> = sanitizedContext !== undefined
+      ? settings.contextActionTypeWeights[sanitizedContext] ?? {}
+      : {};
+    const weights: ActionTypeWeights = {};
+
+    for (const { value: actionType } of ActionTypeRegistry.getActionOptions(settings)) {
+      const customDefinition = ActionTypeRegistry.getCustomDefinition(settings, actionType);
+      const globalWeight = customDefinition
+        ? customDefinition.weight
+        : settings.actionTypeWeights[actionType] ?? DEFAULT_ACTION_TYPE_WEIGHTS[actionType] ?? 1;
+      weights[actionType] = contextOverrides[actionType] ?? globalWeight;
+    }
+
+    return weights;
+  }
+
+  /**
+   * Resolve the weights for a queue drawing from several contexts: the average of each context's weights
+   */
+  static resolveWeightsForContexts(settings: SeeYouAgainSettings, sanitizedContexts: string[]): ActionTypeWeights {
+    if (sanitizedContexts.length === 0) {
+      return this.resolveWeights(settings);
+    }
+
+    const combined: ActionTypeWeights = {};
+    for (const context of sanitizedContexts) {
+      for (const [actionType, weight] of Object.entries(this.resolveWeights(settings, context))) {
+        combined[actionType] = (combined[actionType] ?? 0) + weight / sanitizedContexts.length;
+      }
+    }
+
+    return combined;
+  }
+
   /**
    * Get the weight for a specific action type
    */
-  static getWeight(actionType: ActionType): number {
-    return ACTION_TYPE_WEIGHTS[actionType] ?? 1;
+  static getWeight(actionType: ActionTypeId, weights: ActionTypeWeights = DEFAULT_ACTION_TYPE_WEIGHTS): number {
+    return weights[actionType] ?? 1;
   }
 
   /**
    * Get all action types sorted by weight (highest first)
    */
-  static getActionTypesByWeight(): { actionType: ActionType; weight: number }[] {
-    return Object.entries(ACTION_TYPE_WEIGHTS)
-      .map(([actionType, weight]) => ({ actionType: actionType as ActionType, weight }))
+  static getActionTypesByWeight(weights: ActionTypeWeights = DEFAULT_ACTION_TYPE_WEIGHTS): { actionType: ActionTypeId; weight: number }[] {
+    return (Object.entries(weights) as [ActionTypeId, number][])
+      .map(([actionType, weight]) => ({ actionType, weight }))
       .sort((a, b) => b.weight - a.weight);
   }
 
   /**
    * Get the total sum of all weights (for percentage calculations)
    */
-  static getTotalWeight(): number {
-    return Object.values(ACTION_TYPE_WEIGHTS).reduce((sum, weight) => sum + weight, 0);
+  static getTotalWeight(weights: ActionTypeWeights = DEFAULT_ACTION_TYPE_WEIGHTS): number {
+    return Object.values(weights).reduce((sum, weight) => sum + weight, 0);
   }
 
   /**
    * Get the expected percentage for an action type based on its weight
    */
-  static getExpectedPercentage(actionType: ActionType): number {
-    const weight = this.getWeight(actionType);
-    const total = this.getTotalWeight();
-    return (weight / total) * 100;
+  static getExpectedPercentage(actionType: ActionTypeId, weights: ActionTypeWeights = DEFAULT_ACTION_TYPE_WEIGHTS): number {
+    const weight = this.getWeight(actionType, weights);
+    const total = this.getTotalWeight(weights);
+    return total > 0 ? (weight / total) * 100 : 0;
   }
 
   /**
    * Validate that all action types have weights configured
    */
-  static validateWeights(): { isValid: boolean; missingTypes: string[] } {
-    const allActionTypes: ActionType[] = ['look-at', 'iterate', 'schedule', 'evaluate', 'memorize'];
-    const configuredTypes = Object.keys(ACTION_TYPE_WEIGHTS) as ActionType[];
+  static validateWeights(weights: ActionTypeWeights = DEFAULT_ACTION_TYPE_WEIGHTS): { isValid: boolean; missingTypes: string[] } {
+    const allActionTypes: ActionTypeId[] = ['look-at', 'do', 'iterate', 'schedule', 'improve', 'evaluate', 'memorize'];
+    const configuredTypes = Object.keys(weights);
 
     const missingTypes = allActionTypes.filter(type => !configuredTypes.includes(type));
 
@@ -66,4 +110,4 @@ export class ActionTypeWeightsConfig {
       missingTypes
     };
   }
-}
\ No newline at end of file
+}
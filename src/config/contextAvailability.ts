@@ -0,0 +1,107 @@
+import type { ContextAvailability, SeeYouAgainSettings } from '../types';
+import { DateUtils } from '../utils/dateUtils';
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Utility functions for the time windows in which contexts apply
+ *
+ * Weekdays and date ranges follow human days (a night session before the rollover hour still counts as the previous day),
+ * the time window follows the clock of the configured time zone.
+ */
+export class ContextAvailabilityConfig {
+	/**
+	 * Create availability rules that don't restrict anything
+	 */
+	static createEmpty(): ContextAvailability {
+		return {
+			startTime: null,
+			endTime: null,
+			weekdays: [],
+			startDate: null,
+			endDate: null
+		};
+	}
+
+	/**
+	 * Get the availability rules configured for a context, if any
+	 */
+	static getAvailability(settings: SeeYouAgainSettings, sanitizedContext: string): ContextAvailability | null {
+		const availability = settings.contextAvailability[sanitizedContext] ?? null;
+		return availability !== null && this.hasRules(availability) ? availability : null;
+	}
+
+	/**
+	 * Check if any rule is set
+	 */
+	static hasRules(availability: ContextAvailability): boolean {
+		return this.hasTimeWindow(availability) ||
+			availability.weekdays.length > 0 ||
+			availability.startDate !== null ||
+			availability.endDate !== null;
+	}
+
+	/**
+	 * Check if every rule that is set matches the given moment
+	 */
+	static isActive(availability: ContextAvailability, now: Date = new Date()): boolean {
+		if (this.hasTimeWindow(availability) &&
+			!DateUtils.isWithinTimeWindow(availability.startTime ?? '', availability.endTime ?? '', now)) {
+			return false;
+		}
+
+		const humanDate = DateUtils.getHumanDate(now);
+		if (availability.weekdays.length > 0 && !availability.weekdays.includes(humanDate.getDay())) {
+			return false;
+		}
+
+		const humanDay = DateUtils.formatDate(humanDate);
+		if (availability.startDate !== null && humanDay < availability.startDate) {
+			return false;
+		}
+		if (availability.endDate !== null && humanDay > availability.endDate) {
+			return false;
+		}
+
+		return true;
+	}
+
+	/**
+	 * Check if a context has availability rules and they match the given moment
+	 * Contexts without rules are always available, but never "active"
+	 */
+	static isContextActive(settings: SeeYouAgainSettings, sanitizedContext: string, now: Date = new Date()): boolean {
+		const availability = this.getAvailability(settings, sanitizedContext);
+		return availability !== null && this.isActive(availability, now);
+	}
+
+	/**
+	 * Filter contexts down to the ones that are active at the given moment
+	 */
+	static getActiveContexts(settings: SeeYouAgainSettings, sanitizedContexts: string[], now: Date = new Date()): string[] {
+		return sanitizedContexts.filter(context => this.isContextActive(settings, context, now));
+	}
+
+	/**
+	 * Short human-readable summary of the rules, e.g. "07:00–09:00, Mon, Tue"
+	 */
+	static describe(availability: ContextAvailability): string {
+		const parts: string[] = [];
+
+		if (this.hasTimeWindow(availability)) {
+			parts.push(`${availability.startTime ?? ''}–${availability.endTime ?? ''}`);
+		}
+		if (availability.weekdays.length > 0) {
+			parts.push([...availability.weekdays].sort().map(day => WEEKDAY_LABELS[day]).join(', '));
+		}
+		if (availability.startDate !== null || availability.endDate !== null) {
+			parts.push(`${availability.startDate ?? '…'} to ${availability.endDate ?? '…'}`);
+		}
+
+		return parts.length > 0 ? parts.join(', ') : 'Always';
+	}
+
+	private static hasTimeWindow(availability: ContextAvailability): boolean {
+		return availability.startTime !== null && availability.endTime !== null;
+	}
+}
@@ -0,0 +1,83 @@
+import type { QueueShortcutAction, SeeYouAgainSettings } from '../types';
+
+/**
+ * Default keys of the queue shortcuts, as KeyboardEvent.key values (lowercase for letters)
+ */
+export const DEFAULT_QUEUE_SHORTCUTS: Record<QueueShortcutAction, string> = {
+	'reveal': ' ',
+	'grade-again': '1',
+	'grade-hard': '2',
+	'grade-good': '3',
+	'grade-easy': '4',
+	'next': 'n',
+	'jump-to-note': 'j',
+	'remove-context': 'r'
+};
+
+export const QUEUE_SHORTCUT_LABELS: Record<QueueShortcutAction, string> = {
+	'reveal': 'Reveal answer',
+	'grade-again': 'Grade: Wrong',
+	'grade-hard': 'Grade: Hard',
+	'grade-good': 'Grade: Correct',
+	'grade-easy': 'Grade: Easy',
+	'next': 'Next note',
+	'jump-to-note': 'Jump to note',
+	'remove-context': 'Remove context'
+};
+
+/**
+ * Utility functions for the single-key shortcuts of the queue
+ */
+export class QueueShortcutsConfig {
+	/**
+	 * Resolve the key of every shortcut: remapped keys from the settings on top of the defaults
+	 */
+	static resolve(settings: SeeYouAgainSettings): Record<QueueShortcutAction, string> {
+		return { ...DEFAULT_QUEUE_SHORTCUTS, ...settings.queueShortcuts };
+	}
+
+	/**
+	 * Find the shortcut bound to a key, if any
+	 */
+	static getAction(settings: SeeYouAgainSettings, key: string): QueueShortcutAction | null {
+		const normalizedKey = this.normalizeKey(key);
+		const shortcuts = this.resolve(settings);
+		const action = (Object.keys(shortcuts) as QueueShortcutAction[])
+			.find(candidate => shortcuts[candidate] !== '' && shortcuts[candidate] === normalizedKey);
+		return action ?? null;
+	}
+
+	/**
+	 * Find two shortcuts that share a key, if any
+	 */
+	static findConflict(shortcuts: Record<QueueShortcutAction, string>): [QueueShortcutAction, QueueShortcutAction] | null {
+		const actions = Object.keys(shortcuts) as QueueShortcutAction[];
+		for (let i = 0; i < actions.length; i++) {
+			const other = actions.slice(i + 1).find(candidate => shortcuts[candidate] === shortcuts[actions[i]]);
+			if (shortcuts[actions[i]] !== '' && other !== undefined) {
+				return [actions[i], other];
+			}
+		}
+		return null;
+	}
+
+	/**
+	 * Normalize a typed key: letters are case-insensitive, "Space" and "space" mean the space bar
+	 */
+	static normalizeKey(key: string): string {
+		if (key.toLowerCase() === 'space') {
+			return ' ';
+		}
+		return key.length === 1 ? key.toLowerCase() : key;
+	}
+
+	/**
+	 * Human-readable name of a key, e.g. "Space" or "N"
+	 */
+	static getKeyLabel(key: string): string {
+		if (key === ' ') {
+			return 'Space';
+		}
+		return key.length === 1 ? key.toUpperCase() : key;
+	}
+}
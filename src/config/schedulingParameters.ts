@@ -0,0 +1,116 @@
+import type { FSRSParameters, Grade } from 'ts-fsrs';
+import { createEmptyCard, default_w, fsrs, generatorParameters, Rating } from 'ts-fsrs';
+
+import type { SchedulingParameters, SeeYouAgainSettings } from '../types';
+import { DEFAULT_SETTINGS } from '../types';
+
+const GRADE_LABELS: [Grade, string][] = [
+	[Rating.Again, 'Again'],
+	[Rating.Hard, 'Hard'],
+	[Rating.Good, 'Good'],
+	[Rating.Easy, 'Easy']
+];
+
+/**
+ * Intervals each grade would produce in one example situation
+ */
+export interface IntervalPreview {
+	situation: string;
+	intervals: { grade: string; interval: string }[];
+}
+
+/**
+ * Utility functions for the FSRS parameters of memorize notes (globally and per context)
+ */
+export class SchedulingParametersConfig {
+	/**
+	 * The ts-fsrs defaults
+	 */
+	static createDefault(): SchedulingParameters {
+		return { ...DEFAULT_SETTINGS.schedulingParameters };
+	}
+
+	/**
+	 * Resolve the parameters to use for a context: its own parameters if it has any, otherwise the global ones
+	 */
+	static resolve(settings: SeeYouAgainSettings, sanitizedContext?: string): SchedulingParameters {
+		const contextParameters = sanitizedContext !== undefined
+			? settings.contextSchedulingParameters[sanitizedContext] ?? null
+			: null;
+		return contextParameters ?? settings.schedulingParameters;
+	}
+
+	/**
+	 * Convert to the parameters of the ts-fsrs scheduler
+	 */
+	static toSchedulerParameters(parameters: SchedulingParameters): FSRSParameters {
+		return generatorParameters({
+			request_retention: parameters.desiredRetention,
+			maximum_interval: parameters.maximumIntervalDays,
+			enable_fuzz: parameters.enableFuzz,
+			w: parameters.weights ?? default_w
+		});
+	}
+
+	/**
+	 * Parse comma- or space-separated FSRS weights
+	 * Returns null for an empty input (use the defaults) and undefined if the input is invalid
+	 */
+	static parseWeights(text: string): number[] | null | undefined {
+		const trimmed = text.trim();
+		if (trimmed === '') {
+			return null;
+		}
+
+		const weights = trimmed.split(/[\s,]+/).map(Number);
+		const isValid = (weights.length === 17 || weights.length === default_w.length) &&
+			weights.every(weight => Number.isFinite(weight));
+		return isValid ? weights : undefined;
+	}
+
+	/**
+	 * Preview the intervals of each grade for a new note and for a note reviewed once with "Good"
+	 */
+	static previewIntervals(parameters: SchedulingParameters, now: Date = new Date()): IntervalPreview[] {
+		const scheduler = fsrs(this.toSchedulerParameters(parameters));
+
+		const newCard = createEmptyCard(now);
+		const learnedCard = scheduler.next(newCard, now, Rating.Good).card;
+		const reviewDate = learnedCard.due;
+
+		const preview = (situation: string, card: typeof newCard, date: Date): IntervalPreview => ({
+			situation,
+			intervals: GRADE_LABELS.map(([grade, label]) => ({
+				grade: label,
+				interval: this.formatInterval(date, scheduler.next(card, date, grade).card.due)
+			}))
+		});
+
+		return [
+			preview('New note', newCard, now),
+			preview('Second review (first one was "Good")', learnedCard, reviewDate)
+		];
+	}
+
+	/**
+	 * Human-readable length of an interval, e.g. "10 min", "3 d" or "1.2 y"
+	 */
+	private static formatInterval(from: Date, to: Date): string {
+		const minutes = Math.max(0, Math.round((to.getTime() - from.getTime()) / (60 * 1000)));
+		if (minutes < 60) {
+			return `${minutes} min`;
+		}
+		const hours = minutes / 60;
+		if (hours < 24) {
+			return `${Math.round(hours)} h`;
+		}
+		const days = hours / 24;
+		if (days < 60) {
+			return `${Math.round(days)} d`;
+		}
+		if (days < 365) {
+			return `${(days / 30).toFixed(1)} mo`;
+		}
+		return `${(days / 365).toFixed(1)} y`;
+	}
+}
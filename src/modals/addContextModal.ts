@@ -8,6 +8,7 @@ import type { SeeYouAgainFrontmatter, SeeYouAgainPlugin } from '../types';
 import { BaseNoteModal } from '../utils/baseModal';
 import { NoteRenderer } from '../utils/noteRenderer';
 import { ContextUtils } from '../utils/contextUtils';
+import { ActionTypeRegistry } from '../config/actionTypeRegistry';
 
 export class AddContextModal extends BaseNoteModal {
 	private noteService: NoteService;
@@ -17,7 +18,7 @@ export class AddContextModal extends BaseNoteModal {
 
 	constructor(app: App, plugin: SeeYouAgainPlugin) {
 		super(app, plugin);
-		this.noteService = new NoteService(app);
+		this.noteService = new NoteService(app, plugin.contextIndex);
 	}
 
 	async onOpen(): Promise<void> {
@@ -148,7 +149,7 @@ export class AddContextModal extends BaseNoteModal {
 		// Initialize field manager
 		this.contextFieldManager = new ContextFieldManager(this.app, fieldsContainer, () => {
 			this.updateButtonStates();
-		});
+		}, ActionTypeRegistry.getActionOptions(this.plugin.settings));
 
 		// Load past contexts (quality of life)
 		this.loadPastContextsAsync();
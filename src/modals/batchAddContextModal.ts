@@ -6,6 +6,7 @@ import { ContextFieldManager } from '../components/modalComponents';
 import type { SeeYouAgainFrontmatter, SeeYouAgainPlugin } from '../types';
 import { BaseNoteModal } from '../utils/baseModal';
 import { ContextUtils } from '../utils/contextUtils';
+import { ActionTypeRegistry } from '../config/actionTypeRegistry';
 
 interface SearchView {
 	dom: {
@@ -20,7 +21,7 @@ export class BatchAddContextModal extends BaseNoteModal {
 
 	constructor(app: App, plugin: SeeYouAgainPlugin) {
 		super(app, plugin);
-		this.noteService = new NoteService(app);
+		this.noteService = new NoteService(app, plugin.contextIndex);
 	}
 
 	onOpen(): void {
@@ -106,7 +107,7 @@ export class BatchAddContextModal extends BaseNoteModal {
 		// Initialize field manager
 		this.contextFieldManager = new ContextFieldManager(this.app, fieldsContainer, () => {
 			this.updateButtonStates();
-		});
+		}, ActionTypeRegistry.getActionOptions(this.plugin.settings));
 
 		// Load past contexts asynchronously
 		this.loadPastContextsAsync();
@@ -1,11 +1,11 @@
 import type { App} from 'obsidian';
-import { Modal, Notice } from 'obsidian';
+import { Modal, Notice, ButtonComponent } from 'obsidian';
 
 import { NoteService } from '../noteService';
 import type { SeeYouAgainPlugin } from '../types';
-import { ContextNoteViewerModal } from './contextNoteViewerModal';
 import { FuzzySearch } from '../utils/fuzzySearch';
 import { ContextUtils } from '../utils/contextUtils';
+import { ContextAvailabilityConfig } from '../config/contextAvailability';
 
 export class ContextBrowserModal extends Modal {
 	private plugin: SeeYouAgainPlugin;
@@ -17,11 +17,15 @@ export class ContextBrowserModal extends Modal {
 	private searchInput: HTMLInputElement | null = null;
 	private contextList: HTMLElement | null = null;
 	private paginationControls: HTMLElement | null = null;
+	private activeList: HTMLElement | null = null;
+	private groupList: HTMLElement | null = null;
+	private selectionControls: HTMLElement | null = null;
+	private selectedContexts: Set<string> = new Set();
 
 	constructor(app: App, plugin: SeeYouAgainPlugin) {
 		super(app);
 		this.plugin = plugin;
-		this.noteService = new NoteService(app);
+		this.noteService = new NoteService(app, plugin.contextIndex);
 	}
 
 	onOpen(): void {
@@ -30,15 +34,13 @@ export class ContextBrowserModal extends Modal {
 		
 		// Check if we should resume from a previous context/note
 		const lastContextNote = this.plugin.stateManager.get('lastContextNote');
-		const lastContext = this.plugin.stateManager.get('lastContext');
+		const lastContexts = this.plugin.stateManager.get('lastContexts');
 		
-		if (lastContext !== null && lastContext !== undefined && lastContextNote !== null && lastContextNote !== undefined) {
+		if (lastContexts !== null && lastContexts !== undefined && lastContextNote !== null && lastContextNote !== undefined) {
 			// Skip the browser and go directly to the note viewer
 			this.close();
 			
-			const hydratedContext = ContextUtils.hydrateContextKey(lastContext);
-			const noteViewerModal = new ContextNoteViewerModal(this.app, this.plugin, hydratedContext, lastContext);
-			noteViewerModal.open();
+			void this.plugin.openQueue(lastContexts);
 			return;
 		}
 		
@@ -79,6 +81,16 @@ export class ContextBrowserModal extends Modal {
 
 		this.searchInput.addEventListener('input', () => this.handleSearch());
 
+		// Contexts whose time window applies right now
+		this.activeList = contentEl.createEl('div');
+		this.activeList.className = 'context-browser-groups';
+		this.renderActiveList();
+
+		// Saved context groups
+		this.groupList = contentEl.createEl('div');
+		this.groupList.className = 'context-browser-groups';
+		this.renderGroupList();
+
 		// Context list container
 		this.contextList = contentEl.createEl('div');
 		this.contextList.className = 'context-browser-list';
@@ -87,6 +99,10 @@ export class ContextBrowserModal extends Modal {
 		this.paginationControls = contentEl.createEl('div');
 		this.paginationControls.className = 'context-browser-pagination';
 
+		// Controls for starting or saving a multi-context selection
+		this.selectionControls = contentEl.createEl('div');
+		this.selectionControls.className = 'context-browser-selection';
+
 		this.updateDisplay();
 	}
 
@@ -112,6 +128,110 @@ export class ContextBrowserModal extends Modal {
 	private updateDisplay(): void {
 		this.renderContextList();
 		this.renderPaginationControls();
+		this.renderSelectionControls();
+	}
+
+	private renderActiveList(): void {
+		if (!this.activeList) {return;}
+
+		this.activeList.empty();
+
+		const activeContexts = ContextAvailabilityConfig.getActiveContexts(
+			this.plugin.settings,
+			this.allContexts.map(context => ContextUtils.dehydrateContext(context))
+		);
+		if (activeContexts.length === 0) {
+			return;
+		}
+
+		this.activeList.createEl('h3', { text: 'Active Now' });
+
+		activeContexts.forEach(context => {
+			if (this.activeList === null) {
+				return;
+			}
+			const activeItem = this.activeList.createEl('div');
+			activeItem.className = 'context-browser-item context-browser-group-item is-active-context';
+
+			activeItem.createEl('span', { text: ContextUtils.hydrateContextKey(context) });
+
+			const availability = ContextAvailabilityConfig.getAvailability(this.plugin.settings, context);
+			if (availability) {
+				const rulesInfo = activeItem.createEl('span', { text: ContextAvailabilityConfig.describe(availability) });
+				rulesInfo.className = 'context-browser-pagination-info';
+			}
+
+			activeItem.addEventListener('click', () => {
+				this.startQueue([context]);
+			});
+		});
+
+		if (activeContexts.length > 1) {
+			const startAllButton = new ButtonComponent(this.activeList);
+			startAllButton.setButtonText('Start queue for all active contexts');
+			startAllButton.onClick(() => this.startQueue(activeContexts));
+		}
+	}
+
+	private renderGroupList(): void {
+		if (!this.groupList) {return;}
+
+		this.groupList.empty();
+
+		const groups = this.plugin.settings.contextGroups;
+		if (groups.length === 0) {
+			return;
+		}
+
+		this.groupList.createEl('h3', { text: 'Groups' });
+
+		groups.forEach(group => {
+			if (this.groupList === null) {
+				return;
+			}
+			const groupItem = this.groupList.createEl('div');
+			groupItem.className = 'context-browser-item context-browser-group-item';
+
+			const contextNames = group.contexts.map(context => ContextUtils.hydrateContextKey(context)).join(' + ');
+			groupItem.createEl('span', { text: `${group.name} (${contextNames})` });
+
+			const deleteButton = groupItem.createEl('button', { text: 'Delete' });
+			deleteButton.className = 'context-browser-group-delete';
+			deleteButton.addEventListener('click', (evt) => {
+				evt.stopPropagation();
+				void this.deleteGroup(group.name);
+			});
+
+			groupItem.addEventListener('click', () => {
+				this.startQueue(group.contexts);
+			});
+		});
+	}
+
+	private renderSelectionControls(): void {
+		if (!this.selectionControls) {return;}
+
+		this.selectionControls.empty();
+
+		if (this.selectedContexts.size === 0) {
+			const hint = this.selectionControls.createEl('span', { text: 'Tick several contexts to start a queue drawing from all of them.' });
+			hint.className = 'context-browser-pagination-info';
+			return;
+		}
+
+		const selectionInfo = this.selectionControls.createEl('span', { text: `${this.selectedContexts.size} selected` });
+		selectionInfo.className = 'context-browser-pagination-info';
+
+		const startButton = new ButtonComponent(this.selectionControls);
+		startButton.setButtonText('Start queue');
+		startButton.setCta();
+		startButton.onClick(() => this.startQueue(this.getSelectedSanitizedContexts()));
+
+		const groupNameInput = this.selectionControls.createEl('input', { type: 'text', placeholder: 'Group name' });
+
+		const saveButton = new ButtonComponent(this.selectionControls);
+		saveButton.setButtonText('Save as group');
+		saveButton.onClick(() => this.saveGroup(groupNameInput.value));
 	}
 
 	private renderContextList(): void {
@@ -129,14 +249,34 @@ export class ContextBrowserModal extends Modal {
 		const endIndex = Math.min(startIndex + this.itemsPerPage, this.filteredContexts.length);
 		const pageContexts = this.filteredContexts.slice(startIndex, endIndex);
 
+		// Show the hierarchy as an indented tree, but full paths while searching
+		const showTree = this.searchInput === null || this.searchInput.value.trim() === '';
+
 		pageContexts.forEach(context => {
 			if (this.contextList === null) {
 				return;
 			}
 			const contextItem = this.contextList.createEl('div');
 			contextItem.className = 'context-browser-item';
+			if (ContextAvailabilityConfig.isContextActive(this.plugin.settings, ContextUtils.dehydrateContext(context))) {
+				contextItem.classList.add('is-active-context');
+			}
 
-			contextItem.textContent = context;
+			const checkbox = contextItem.createEl('input', { type: 'checkbox' });
+			checkbox.className = 'context-browser-item-checkbox';
+			checkbox.checked = this.selectedContexts.has(context);
+			checkbox.addEventListener('click', (evt) => {
+				// Ticking only adds to the selection, it doesn't start a queue
+				evt.stopPropagation();
+				this.toggleSelection(context, checkbox.checked);
+			});
+
+			if (showTree) {
+				contextItem.setCssProps({ '--context-depth': String(ContextUtils.getDepth(context)) });
+				contextItem.createEl('span', { text: ContextUtils.getLeafName(context) });
+			} else {
+				contextItem.createEl('span', { text: context });
+			}
 
 			contextItem.addEventListener('click', () => {
 				this.selectContext(context);
@@ -185,25 +325,62 @@ export class ContextBrowserModal extends Modal {
 		});
 	}
 
+	private toggleSelection(hydratedContext: string, selected: boolean): void {
+		if (selected) {
+			this.selectedContexts.add(hydratedContext);
+		} else {
+			this.selectedContexts.delete(hydratedContext);
+		}
+		this.renderSelectionControls();
+	}
+
+	private getSelectedSanitizedContexts(): string[] {
+		// Convert back to sanitized format for searching
+		return [...this.selectedContexts].map(context => ContextUtils.dehydrateContext(context));
+	}
+
+	private async saveGroup(name: string): Promise<void> {
+		const trimmedName = name.trim();
+		if (trimmedName === '') {
+			new Notice('Please enter a name for the group.');
+			return;
+		}
+
+		const contexts = this.getSelectedSanitizedContexts();
+		const otherGroups = this.plugin.settings.contextGroups.filter(group => group.name !== trimmedName);
+		const isUpdate = otherGroups.length !== this.plugin.settings.contextGroups.length;
+
+		this.plugin.settings.contextGroups = [...otherGroups, { name: trimmedName, contexts }];
+		await this.plugin.saveSettings();
+
+		new Notice(isUpdate ? `Updated group "${trimmedName}"` : `Saved group "${trimmedName}"`);
+		this.renderGroupList();
+	}
+
+	private async deleteGroup(name: string): Promise<void> {
+		this.plugin.settings.contextGroups = this.plugin.settings.contextGroups.filter(group => group.name !== name);
+		await this.plugin.saveSettings();
+		this.renderGroupList();
+	}
+
 	private selectContext(hydratedContext: string): void {
 		// Convert back to sanitized format for searching
-		const sanitizedContext = ContextUtils.dehydrateContext(hydratedContext);
+		this.startQueue([ContextUtils.dehydrateContext(hydratedContext)]);
+	}
 
-		// Close this modal and open the note viewer
+	private startQueue(sanitizedContexts: string[]): void {
+		// Close this modal and open the queue
 		this.close();
 		
 		// Check if we should resume from a previous note
-		this.plugin.stateManager.get('lastContextNote');
-		const lastContext = this.plugin.stateManager.get('lastContext');
-		
-		const noteViewerModal = new ContextNoteViewerModal(this.app, this.plugin, hydratedContext, sanitizedContext);
+		const lastContexts = this.plugin.stateManager.get('lastContexts');
 		
-		// If the user is selecting the same context they were viewing before, the modal will resume from that note
+		// If the user is selecting the same contexts they were viewing before, the modal will resume from that note
 		// Otherwise, clear the stored state so they start fresh
-		if (lastContext !== sanitizedContext) {
+		if (lastContexts === null || lastContexts.join('\n') !== sanitizedContexts.join('\n')) {
 			this.plugin.stateManager.clearNavigationState();
 		}
 		
-		noteViewerModal.open();
+		void this.plugin.openQueue(sanitizedContexts);
 	}
 }
@@ -1,223 +1,46 @@
-import type { App } from 'obsidian';
-import { TFile, ButtonComponent } from 'obsidian';
+import type { App, TFile } from 'obsidian';
 
-import { NoteService } from '../noteService';
-import type { SeeYouAgainPlugin, ActionType } from '../types';
+import type { SeeYouAgainPlugin } from '../types';
 import { BaseNoteModal } from '../utils/baseModal';
 import { ContextBrowserModal } from './contextBrowserModal';
-import type { ActionHandler, ActionHandlerContext } from '../actions/baseActionHandler';
-import { ActionHandlerFactory } from '../actions/actionHandlerFactory';
-import { ActionTypeScheduler } from '../scheduling/actionTypeScheduler';
+import type { ContextQueueHost } from '../components/contextQueueSession';
+import { ContextQueueSession } from '../components/contextQueueSession';
 
-export class ContextNoteViewerModal extends BaseNoteModal {
-	private noteService: NoteService;
-	private hydratedContext: string;
-	private sanitizedContext: string;
-	private currentActionType: ActionType | null = null;
-	private currentActionHandler: ActionHandler | null = null;
+export class ContextNoteViewerModal extends BaseNoteModal implements ContextQueueHost {
+	private session: ContextQueueSession;
 
 	constructor(
 		app: App,
 		plugin: SeeYouAgainPlugin,
-		hydratedContext: string,
-		sanitizedContext: string
+		sanitizedContexts: string[]
 	) {
 		super(app, plugin);
-		this.noteService = new NoteService(app);
-		this.hydratedContext = hydratedContext;
-		this.sanitizedContext = sanitizedContext;
+		this.session = new ContextQueueSession(app, plugin, this, sanitizedContexts);
 	}
 
 	async onOpen(): Promise<void> {
-		// Check if we should resume from a specific note
-		const resumeNotePath = this.plugin.stateManager.get('lastContextNote');
-		if (resumeNotePath !== null && resumeNotePath !== undefined && resumeNotePath !== '') {
-			// Try to load the specific note
-			const file = this.app.vault.getAbstractFileByPath(resumeNotePath);
-			if (file instanceof TFile) {
-				this.currentNote = file;
-
-			// Get the action type from frontmatter for resume case
-			const frontmatter = this.noteService.getFrontmatter(file);
-			this.currentActionType = frontmatter[this.sanitizedContext];
-
-			if (this.currentActionType) {
-				// Track the resumed action type
-				this.plugin.stateManager.incrementActionTypeUsage(this.currentActionType);
-				
-				await this.loadActionType();
-				await this.renderModal();
-				return;
-			} else {
-				// Context no longer exists on this note, clear the invalid state
-				this.plugin.stateManager.clearNavigationState();
-			}
-			}
-		}
-
-		// Otherwise load a random note
-		await this.loadRandomNote();
-	}
-
-	onClose(): void {
-		// Clean up the current action handler
-		if (this.currentActionHandler && this.currentActionHandler.cleanup) {
-			this.currentActionHandler.cleanup();
-		}
-		super.onClose();
-	}
-
-	private async loadRandomNote(): Promise<void> {
-		try {
-			// Get the most underpicked action type based on current session usage
-			const actionTypeUsage = this.plugin.stateManager.getActionTypeUsage();
-			const preferredActionType = ActionTypeScheduler.getMostUnderpickedActionType(actionTypeUsage);
-
-			// Action type scheduling with preferred type selection
-
-			// Try to get a note with the preferred action type
-			const result = this.noteService.getRandomNoteWithContextPrioritized(
-				this.sanitizedContext,
-				preferredActionType
-			);
-
-			if (!result) {
-				this.showNoNotesMessage();
-				return;
+		this.scope.register(['Mod'], 'z', (evt: KeyboardEvent) => {
+			// Leave text undo inside inputs alone
+			if (evt.target instanceof HTMLInputElement || evt.target instanceof HTMLTextAreaElement) {
+				return true;
 			}
-
-			this.currentNote = result.file;
-			this.currentActionType = result.actionType;
-
-			// Track that this action type was used
-			this.plugin.stateManager.incrementActionTypeUsage(result.actionType);
-
-
-			await this.loadActionType();
-			await this.renderModal();
-		} catch (error) {
-			this.showError('Error loading note. Please try again.');
-		}
-	}
-
-	private async loadActionType(): Promise<void> {
-		if (!this.currentNote || !this.currentActionType) {
-			this.currentActionHandler = null;
-			return;
-		}
-
-		try {
-			// Clean up previous handler
-			if (this.currentActionHandler && this.currentActionHandler.cleanup) {
-				this.currentActionHandler.cleanup();
-			}
-
-			// Create action handler context
-			const context: ActionHandlerContext = {
-				app: this.app,
-				plugin: this.plugin,
-				currentNote: this.currentNote,
-				hydratedContext: this.hydratedContext,
-				sanitizedContext: this.sanitizedContext,
-				onNext: () => this.handleNext(),
-				onChangeContext: () => this.changeContext(),
-				onJumpToNote: () => this.jumpToNote(),
-				onRemoveContext: () => this.removeContext(),
-				onDeleteNote: () => this.deleteNote(),
-				createButton: (container: HTMLElement, text: string, onClick: () => void | Promise<void>) => {
-					const button = new ButtonComponent(container);
-					button.setButtonText(text);
-					button.onClick(onClick);
-					return button.buttonEl;
-				},
-				showError: (message: string) => this.showError(message)
-			};
-
-			// Create the appropriate action handler
-			this.currentActionHandler = await ActionHandlerFactory.createHandler(this.currentActionType, context);
-		} catch (error) {
-			this.currentActionHandler = null;
-		}
-	}
-
-	private showNoNotesMessage(): void {
-		const { contentEl } = this;
-		contentEl.empty();
-
-		const header = contentEl.createEl('div');
-		header.className = 'context-note-viewer-no-notes';
-
-		header.createEl('h2', { text: 'No Notes Found' });
-		header.createEl('p', {
-			text: `No notes found with the context "${this.hydratedContext}".`
+			void this.session.undoLastAction();
+			return false;
 		});
 
-		// Button row
-		const buttonContainer = contentEl.createEl('div');
-		buttonContainer.className = 'modal-button-row';
+		// Single-key shortcuts for the queue buttons
+		this.session.registerShortcuts(this.scope);
 
-		const closeButton = this.createStyledButton('Close', () => this.close());
-		buttonContainer.appendChild(closeButton);
+		// Resume from the note the user jumped to, if any
+		await this.session.start(this.plugin.stateManager.get('lastContextNote'));
 	}
 
-	private async renderModal(): Promise<void> {
-		if (!this.currentNote || !this.currentActionHandler) { return; }
-
-		const { contentEl } = this;
-		contentEl.empty();
-
-		// Mark the note as seen when displayed
-		try {
-			await this.noteService.markNoteSeen(this.currentNote);
-		} catch (error) {
-			console.error('Failed to mark note as seen:', error);
-			// Continue rendering even if marking as seen fails
-		}
-
-		// Change Context button at the top
-		const buttonRow = contentEl.createEl('div');
-		buttonRow.className = 'context-note-viewer-button-row';
-
-		const changeContextButton = new ButtonComponent(buttonRow);
-		changeContextButton.setButtonText('Change Context');
-		changeContextButton.onClick(() => this.changeContext());
-		changeContextButton.buttonEl.className = 'change-context-button';
-
-		// Horizontal rule before prompt
-		contentEl.createEl('hr');
-
-		// Action-specific prompt as heading
-		const promptText = this.currentActionHandler.getPromptText();
-		const promptHeading = contentEl.createEl('h2');
-		promptHeading.textContent = promptText;
-		promptHeading.className = 'action-prompt-heading';
-
-		// Horizontal rule after prompt
-		contentEl.createEl('hr');
-
-		// Note title (only for non-memorize actions, memorize handles its own heading)
-		if (this.currentActionType !== 'memorize') {
-			this.createHeader(this.currentNote.basename);
-		}
-
-		// Note content (handled by action handler)
-		const previewContainer = contentEl.createEl('div');
-		previewContainer.className = 'context-note-viewer-preview';
-
-		await this.currentActionHandler.renderNoteContent(previewContainer);
-
-		// Buttons (handled by action handler)
-		const buttonContainer = contentEl.createEl('div');
-		buttonContainer.className = 'modal-button-row';
-
-		this.currentActionHandler.createButtons(buttonContainer);
-	}
-
-	private async handleNext(): Promise<void> {
-		await this.loadRandomNote();
+	onClose(): void {
+		this.session.destroy();
+		super.onClose();
 	}
 
-	private changeContext(): void {
+	changeContext(): void {
 		// Clear stored state since user wants to change context
 		this.plugin.stateManager.clearNavigationState();
 
@@ -227,54 +50,21 @@ export class ContextNoteViewerModal extends BaseNoteModal {
 		contextBrowserModal.open();
 	}
 
-	private async jumpToNote(): Promise<void> {
-		if (!this.currentNote) { return; }
-
-		try {
-			// Store transient state in state manager
-			this.plugin.stateManager.update({
-				lastContextNote: this.currentNote.path,
-				lastContext: this.sanitizedContext
-			});
-
-			// Open the note in the active leaf (same tab)  
-			const leaf = this.app.workspace.getLeaf(false);
-			await leaf.openFile(this.currentNote);
-
-			// Focus the leaf
-			this.app.workspace.setActiveLeaf(leaf);
-
-			// Close the modal
-			this.close();
-		} catch (error) {
-			this.showError('Error opening note. Please try again.');
-		}
-	}
-
-	private async removeContext(): Promise<void> {
-		if (!this.currentNote) { return; }
-
-		try {
-			await this.noteService.removeContext(this.currentNote, this.sanitizedContext);
-			await this.handleNext(); // Load next note after removing context
-		} catch (error) {
-			this.showError('Error removing context. Please try again.');
-		}
-	}
-
+	async jumpToNote(note: TFile): Promise<void> {
+		// Store transient state in state manager
+		this.plugin.stateManager.update({
+			lastContextNote: note.path,
+			lastContexts: this.session.sanitizedContexts
+		});
 
-	private async deleteNote(): Promise<void> {
-		if (!this.currentNote) { return; }
+		// Open the note in the active leaf (same tab)
+		const leaf = this.app.workspace.getLeaf(false);
+		await leaf.openFile(note);
 
-		// Confirm deletion
-		const confirmed = confirm(`Are you sure you want to delete the note "${this.currentNote.basename}"? This cannot be undone.`);
-		if (!confirmed) { return; }
+		// Focus the leaf
+		this.app.workspace.setActiveLeaf(leaf);
 
-		try {
-			await this.noteService.deleteNote(this.currentNote);
-			await this.handleNext(); // Load next note after deletion
-		} catch (error) {
-			this.showError('Error deleting note. Please try again.');
-		}
+		// Close the modal
+		this.close();
 	}
 }
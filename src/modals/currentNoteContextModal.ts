@@ -2,19 +2,20 @@ import type { App} from 'obsidian';
 import { Notice, MarkdownView, ButtonComponent } from 'obsidian';
 
 import { NoteService } from '../noteService';
-import type { SeeYouAgainPlugin, ActionType} from '../types';
+import type { SeeYouAgainPlugin, ActionTypeId} from '../types';
 import { BaseNoteModal } from '../utils/baseModal';
 import { ContextFieldManager } from '../components/modalComponents';
 import { ContextUtils } from '../utils/contextUtils';
+import { ActionTypeRegistry } from '../config/actionTypeRegistry';
 
 export class CurrentNoteContextModal extends BaseNoteModal {
 	private noteService: NoteService;
 	private contextFieldManager: ContextFieldManager | null = null;
-	private existingContexts: { [key: string]: ActionType } = {};
+	private existingContexts: { [key: string]: ActionTypeId } = {};
 
 	constructor(app: App, plugin: SeeYouAgainPlugin) {
 		super(app, plugin);
-		this.noteService = new NoteService(app);
+		this.noteService = new NoteService(app, plugin.contextIndex);
 	}
 
 	onOpen(): void {
@@ -52,7 +53,7 @@ export class CurrentNoteContextModal extends BaseNoteModal {
 			if (frontmatter && typeof frontmatter === 'object' && 'see-you-again' in frontmatter) {
 				const seeYouAgain: unknown = frontmatter['see-you-again'];
 				if (typeof seeYouAgain === 'object' && seeYouAgain !== null && !Array.isArray(seeYouAgain)) {
-					this.existingContexts = { ...seeYouAgain as Record<string, ActionType> };
+					this.existingContexts = { ...seeYouAgain as Record<string, ActionTypeId> };
 				}
 			}
 		} catch (error) {
@@ -76,7 +77,8 @@ export class CurrentNoteContextModal extends BaseNoteModal {
 		this.contextFieldManager = new ContextFieldManager(
 			this.app,
 			fieldsContainer,
-			() => { /* no-op */ }
+			() => { /* no-op */ },
+			ActionTypeRegistry.getActionOptions(this.plugin.settings)
 		);
 
 		// Load past contexts for autocomplete
@@ -128,7 +130,7 @@ export class CurrentNoteContextModal extends BaseNoteModal {
 		}
 
 		try {
-			const newContexts: { [key: string]: ActionType } = {};
+			const newContexts: { [key: string]: ActionTypeId } = {};
 
 			for (const entry of allEntries) {
 				if (!ContextUtils.validateContext(entry.context)) {
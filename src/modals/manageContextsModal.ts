@@ -0,0 +1,235 @@
+import type { App } from 'obsidian';
+import { Setting, ButtonComponent } from 'obsidian';
+
+import type { SeeYouAgainPlugin } from '../types';
+import { BaseNoteModal } from '../utils/baseModal';
+import { NoteService } from '../noteService';
+import type { ContextChangePlan } from '../services/contextMaintenanceService';
+import { ContextMaintenanceService } from '../services/contextMaintenanceService';
+import { ContextUtils } from '../utils/contextUtils';
+
+const MAX_PREVIEW_ROWS = 100;
+
+/**
+ * Lists every context in the vault and renames, merges or deletes them across all notes,
+ * always showing a dry-run preview of the affected notes before anything is written.
+ */
+export class ManageContextsModal extends BaseNoteModal {
+	private noteService: NoteService;
+	private maintenanceService: ContextMaintenanceService;
+
+	constructor(app: App, plugin: SeeYouAgainPlugin) {
+		super(app, plugin);
+		this.noteService = new NoteService(app, plugin.contextIndex);
+		this.maintenanceService = new ContextMaintenanceService(app, plugin);
+	}
+
+	onOpen(): void {
+		super.onOpen();
+		this.renderContextList();
+	}
+
+	private renderContextList(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		this.createHeader('Manage Contexts');
+
+		const contexts = this.noteService.getAllPastContexts();
+		if (contexts.length === 0) {
+			const emptyMessage = contentEl.createEl('div', { text: 'No contexts found' });
+			emptyMessage.className = 'context-browser-empty';
+			return;
+		}
+
+		const list = contentEl.createEl('div');
+		list.className = 'manage-contexts-list';
+
+		contexts.forEach(hydratedContext => {
+			const sanitizedContext = ContextUtils.dehydrateContext(hydratedContext);
+			const noteCount = this.maintenanceService.getNoteCount(sanitizedContext);
+
+			new Setting(list)
+				.setName(hydratedContext)
+				.setDesc(noteCount === 1 ? '1 note' : `${noteCount} notes`)
+				.addButton(button => button
+					.setButtonText('Rename')
+					.onClick(() => this.renderRename(sanitizedContext)))
+				.addButton(button => button
+					.setButtonText('Merge into...')
+					.onClick(() => this.renderMerge(sanitizedContext, contexts)))
+				.addButton(button => button
+					.setButtonText('Delete')
+					.setWarning()
+					.onClick(() => this.renderPreview(
+						`Delete "${hydratedContext}"`,
+						this.maintenanceService.planDelete(sanitizedContext)
+					)));
+		});
+	}
+
+	private renderRename(sanitizedContext: string): void {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		const hydratedContext = ContextUtils.hydrateContextKey(sanitizedContext);
+		this.createHeader(`Rename "${hydratedContext}"`);
+
+		let newName = hydratedContext;
+		new Setting(contentEl)
+			.setName('New name')
+			.setDesc('Renaming to a context that already exists merges both. Sub-contexts are renamed along with it.')
+			.addText(text => text
+				.setValue(hydratedContext)
+				.onChange(value => {
+					newName = value;
+				}));
+
+		this.renderFormButtons(() => {
+			if (!ContextUtils.validateContext(newName)) {
+				this.showError('Please enter a valid context name.');
+				return;
+			}
+			this.previewRename(sanitizedContext, ContextUtils.sanitizeContextKey(newName));
+		});
+	}
+
+	private renderMerge(sanitizedContext: string, hydratedContexts: string[]): void {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		const hydratedContext = ContextUtils.hydrateContextKey(sanitizedContext);
+		this.createHeader(`Merge "${hydratedContext}" into...`);
+
+		const targets = hydratedContexts
+			.map(context => ContextUtils.dehydrateContext(context))
+			.filter(context => !ContextUtils.isSameOrDescendant(context, sanitizedContext));
+
+		if (targets.length === 0) {
+			contentEl.createEl('p', { text: 'There is no other context to merge into.' });
+			this.renderFormButtons(null);
+			return;
+		}
+
+		let target = targets[0];
+		new Setting(contentEl)
+			.setName('Target context')
+			.setDesc('Notes that already have the target context keep their action type for it.')
+			.addDropdown(dropdown => {
+				targets.forEach(context => {
+					dropdown.addOption(context, ContextUtils.hydrateContextKey(context));
+				});
+				dropdown.setValue(target);
+				dropdown.onChange(value => {
+					target = value;
+				});
+			});
+
+		this.renderFormButtons(() => this.previewRename(sanitizedContext, target));
+	}
+
+	private previewRename(fromContext: string, toContext: string): void {
+		try {
+			const plan = this.maintenanceService.planRename(fromContext, toContext);
+			const title = this.plugin.contextIndex.getContextKeys().includes(toContext)
+				? `Merge "${ContextUtils.hydrateContextKey(fromContext)}" into "${ContextUtils.hydrateContextKey(toContext)}"`
+				: `Rename "${ContextUtils.hydrateContextKey(fromContext)}" to "${ContextUtils.hydrateContextKey(toContext)}"`;
+			this.renderPreview(title, plan);
+		} catch (error) {
+			this.showError(error instanceof Error ? error.message : 'Error planning the rename. Please try again.');
+		}
+	}
+
+	/**
+	 * Dry run: show every note that would change before applying the plan
+	 */
+	private renderPreview(title: string, plan: ContextChangePlan): void {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		this.createHeader(title);
+
+		const noteCount = new Set(plan.changes.map(change => change.file.path)).size;
+		const conflictCount = plan.changes.filter(change => change.conflict).length;
+
+		const summary = contentEl.createEl('div');
+		summary.className = 'batch-modal-info';
+		summary.createEl('p', { text: `${noteCount} ${noteCount === 1 ? 'note' : 'notes'} will be updated. Nothing has been changed yet.` });
+		if (conflictCount > 0) {
+			summary.createEl('p', { text: `${conflictCount} ${conflictCount === 1 ? 'note already has' : 'notes already have'} the target context and will keep its existing action type.` });
+		}
+
+		const previewList = contentEl.createEl('ul');
+		previewList.className = 'manage-contexts-preview';
+
+		plan.changes.slice(0, MAX_PREVIEW_ROWS).forEach(change => {
+			const from = ContextUtils.hydrateContextKey(change.fromContext);
+			const outcome = change.toContext === null
+				? 'removed'
+				: `→ ${ContextUtils.hydrateContextKey(change.toContext)}${change.conflict ? ' (already there)' : ''}`;
+			previewList.createEl('li', { text: `${change.file.basename}: ${from} (${change.actionType}) ${outcome}` });
+		});
+		if (plan.changes.length > MAX_PREVIEW_ROWS) {
+			previewList.createEl('li', { text: `...and ${plan.changes.length - MAX_PREVIEW_ROWS} more` });
+		}
+
+		const buttonContainer = contentEl.createEl('div');
+		buttonContainer.className = 'modal-button-row';
+
+		const backButton = new ButtonComponent(buttonContainer);
+		backButton.setButtonText('Back');
+		backButton.onClick(() => this.renderContextList());
+
+		const applyButton = new ButtonComponent(buttonContainer);
+		applyButton.setButtonText('Apply');
+		if (plan.toContext === null) {
+			applyButton.setWarning();
+		} else {
+			applyButton.setCta();
+		}
+		applyButton.setDisabled(plan.changes.length === 0);
+		applyButton.onClick(async () => {
+			backButton.setDisabled(true);
+			applyButton.setDisabled(true);
+			await this.applyPlan(plan, applyButton);
+		});
+	}
+
+	private async applyPlan(plan: ContextChangePlan, applyButton: ButtonComponent): Promise<void> {
+		try {
+			applyButton.setButtonText('Processing 0%');
+
+			const result = await this.maintenanceService.apply(plan, (done, total) => {
+				applyButton.setButtonText(`Processing ${Math.round((done / total) * 100)}%`);
+			});
+
+			if (result.updatedNotes > 0) {
+				this.showSuccess(`Updated ${result.updatedNotes} notes.`);
+			}
+			if (result.errors.length > 0) {
+				console.error('Failed to update contexts:', result.errors);
+				this.showError(`Failed to update ${result.errors.length} notes. Check console for details.`);
+			}
+		} catch (error) {
+			this.showError('Error updating contexts. Please try again.');
+		}
+
+		this.renderContextList();
+	}
+
+	private renderFormButtons(onPreview: (() => void) | null): void {
+		const buttonContainer = this.contentEl.createEl('div');
+		buttonContainer.className = 'modal-button-row';
+
+		const backButton = new ButtonComponent(buttonContainer);
+		backButton.setButtonText('Back');
+		backButton.onClick(() => this.renderContextList());
+
+		if (onPreview) {
+			const previewButton = new ButtonComponent(buttonContainer);
+			previewButton.setButtonText('Preview changes');
+			previewButton.setCta();
+			previewButton.onClick(onPreview);
+		}
+	}
+}
@@ -1,65 +1,51 @@
 import type { App, TFile } from 'obsidian';
 
-import type { SeeYouAgainFrontmatter, ActionType } from './types';
+import type { SeeYouAgainFrontmatter, ActionTypeId, ReviewOrder, SchedulingParameters } from './types';
 import { DateUtils } from './utils/dateUtils';
+import { ContextUtils } from './utils/contextUtils';
 import { FSRSService } from './services/fsrsService';
+import { RecurrenceService } from './services/recurrenceService';
+import { SchedulingParametersConfig } from './config/schedulingParameters';
+import type { ContextIndex, IndexedNote } from './services/contextIndex';
+
+const SEEN_PROPERTY = 'seen-you-again';
+
+/**
+ * Limits and ordering applied when picking the next note of a queue
+ */
+export interface NoteSelectionOptions {
+	/** Contexts in which memorize notes are skipped, e.g. because their daily quota is used up */
+	memorizeBlockedContexts: string[];
+	/** How many memorize notes that were never reviewed may still be introduced today */
+	newCardsRemaining: number;
+	reviewOrder: ReviewOrder;
+	/** FSRS parameters of a context, so reviews are ordered with the same model they are graded with */
+	getSchedulingParameters: (sanitizedContext: string) => SchedulingParameters;
+}
+
+const DEFAULT_SELECTION_OPTIONS: NoteSelectionOptions = {
+	memorizeBlockedContexts: [],
+	newCardsRemaining: 20,
+	reviewOrder: 'random',
+	getSchedulingParameters: () => SchedulingParametersConfig.createDefault()
+};
 
 export class NoteService {
 	private fsrsService: FSRSService;
+	private recurrenceService: RecurrenceService;
 
-	constructor(private app: App) {
+	constructor(private app: App, private contextIndex: ContextIndex) {
 		this.fsrsService = new FSRSService(this);
-	}
-
-	/**
-	 * Get all markdown files in the vault
-	 */
-	private getAllMarkdownFiles(): TFile[] {
-		return this.app.vault.getMarkdownFiles();
-	}
-
-	/**
-	 * Check if a note already has see-you-again frontmatter
-	 */
-	private hasExistingMetadata(file: TFile): boolean {
-		try {
-			const fileCache = this.app.metadataCache.getFileCache(file);
-			const frontmatter = fileCache?.frontmatter;
-
-			if (!frontmatter || typeof frontmatter !== 'object' || !('see-you-again' in frontmatter)) {
-				return false;
-			}
-
-			const seeYouAgain: unknown = frontmatter['see-you-again'];
-			// Check if it's an empty array/object or has actual content
-			if (Array.isArray(seeYouAgain)) {
-				return seeYouAgain.length > 0;
-			}
-			if (typeof seeYouAgain === 'object' && seeYouAgain !== null) {
-				return Object.keys(seeYouAgain).length > 0;
-			}
-
-			return true;
-		} catch (error) {
-			return false;
-		}
+		this.recurrenceService = new RecurrenceService(this);
 	}
 
 	/**
 	 * Get eligible notes (those without existing see-you-again metadata)
 	 */
 	getEligibleNotes(): TFile[] {
-		const allFiles = this.getAllMarkdownFiles();
-		const eligibleNotes: TFile[] = [];
-
-		for (const file of allFiles) {
-			const hasMetadata = this.hasExistingMetadata(file);
-			if (!hasMetadata) {
-				eligibleNotes.push(file);
-			}
-		}
-
-		return eligibleNotes;
+		return this.contextIndex.getAllNotes()
+			.filter(note => !note.hasMetadata)
+			.map(note => note.file);
 	}
 
 	/**
@@ -80,7 +66,7 @@ export class NoteService {
 	 * Save see-you-again metadata to a note's frontmatter
 	 */
 	async saveMetadata(file: TFile, metadata: SeeYouAgainFrontmatter): Promise<void> {
-		await this.app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+		await this.processFrontMatter(file, (frontmatter) => {
 			frontmatter['see-you-again'] = metadata;
 		});
 	}
@@ -96,77 +82,70 @@ export class NoteService {
 	 * Check if a specific note is eligible (doesn't have see-you-again metadata)
 	 */
 	isNoteEligible(file: TFile): boolean {
-		const hasMetadata = this.hasExistingMetadata(file);
-		return !hasMetadata;
+		return !(this.contextIndex.getNote(file)?.hasMetadata ?? false);
 	}
 
 	/**
 	 * Get all unique contexts that have been used in the past
 	 */
 	getAllPastContexts(): string[] {
-		const allFiles = this.getAllMarkdownFiles();
 		const contextSet = new Set<string>();
 
-		for (const file of allFiles) {
-			const fileCache = this.app.metadataCache.getFileCache(file);
-			const frontmatter = fileCache?.frontmatter;
-
-			if (frontmatter && typeof frontmatter === 'object' && 'see-you-again' in frontmatter) {
-				const seeYouAgain: unknown = frontmatter['see-you-again'];
-
-				// Handle object format (current implementation)
-				if (typeof seeYouAgain === 'object' && seeYouAgain !== null && !Array.isArray(seeYouAgain)) {
-					Object.keys(seeYouAgain).forEach(context => {
-						if (context && context.trim()) {
-							// Hydrate: replace dashes with spaces for display
-							const hydratedContext = context.replace(/-/g, ' ');
-							contextSet.add(hydratedContext);
-						}
-					});
-				}
+		this.contextIndex.getContextKeys().forEach(context => {
+			// Include parents of nested contexts even if no note uses them directly
+			[...ContextUtils.getAncestorContexts(context), context].forEach(key => {
+				contextSet.add(ContextUtils.hydrateContextKey(key));
+			});
+		});
+
+		return ContextUtils.sortAsTree(Array.from(contextSet));
+	}
+
+	/**
+	 * Expand contexts to include all of their nested sub-contexts in use (sanitized keys)
+	 */
+	expandWithDescendants(sanitizedContexts: string[]): string[] {
+		const expanded = new Set<string>(sanitizedContexts);
+
+		this.contextIndex.getContextKeys().forEach(context => {
+			if (sanitizedContexts.some(ancestor => ContextUtils.isSameOrDescendant(context, ancestor))) {
+				expanded.add(context);
 			}
-		}
+		});
 
-		return Array.from(contextSet).sort();
+		return Array.from(expanded);
 	}
 
 	/**
-	 * Get all notes that have a specific context (sanitized key), prioritizing unseen notes
+	 * Get all notes that have a specific context (sanitized key), prioritizing notes not seen today in this context
+	 * Non-memorize notes still in their recurrence cooldown are left out
 	 */
 	getNotesWithContext(sanitizedContext: string): TFile[] {
-		const allFiles = this.getAllMarkdownFiles();
 		const unseenNotes: TFile[] = [];
-		const seenNotes: TFile[] = [];
-
-		for (const file of allFiles) {
-			try {
-				const fileCache = this.app.metadataCache.getFileCache(file);
-				const frontmatter = fileCache?.frontmatter;
-
-				if (frontmatter && typeof frontmatter === 'object' && 'see-you-again' in frontmatter) {
-					const seeYouAgain: unknown = frontmatter['see-you-again'];
-
-					// Handle object format (current implementation)
-					if (typeof seeYouAgain === 'object' && seeYouAgain !== null && !Array.isArray(seeYouAgain)) {
-						const seeYouAgainObj = seeYouAgain as Record<string, unknown>;
-						if (seeYouAgainObj[sanitizedContext] !== null && seeYouAgainObj[sanitizedContext] !== undefined) {
-							// Check if note was seen today
-							const lastSeen: unknown = frontmatter['seen-you-again'];
-							if (this.wasSeenToday(lastSeen as string | undefined)) {
-								seenNotes.push(file);
-							} else {
-								unseenNotes.push(file);
-							}
-						}
-					}
-				}
-			} catch (error) {
-				// Skip files with invalid frontmatter
+		const seenNotes: IndexedNote[] = [];
+
+		for (const note of this.contextIndex.getNotesWithContext(sanitizedContext)) {
+			const lastSeen = this.getLastSeen(note, sanitizedContext);
+			if (note.contexts[sanitizedContext] !== 'memorize' &&
+				this.recurrenceService.isInCooldown(note.file, sanitizedContext, lastSeen)) {
+				continue;
+			}
+			if (this.wasSeenToday(lastSeen)) {
+				seenNotes.push(note);
+			} else {
+				unseenNotes.push(note.file);
 			}
 		}
 
-		// Return unseen notes first, then seen notes
-		return [...unseenNotes, ...seenNotes];
+		// Return unseen notes first, then seen notes (least recently seen first)
+		return [...unseenNotes, ...this.sortByLastSeen(seenNotes, sanitizedContext)];
+	}
+
+	/**
+	 * Check if a memorize note has never been reviewed in a context
+	 */
+	isNewCard(file: TFile, sanitizedContext: string): boolean {
+		return !this.fsrsService.hasCardData(file, sanitizedContext);
 	}
 
 	/**
@@ -185,118 +164,152 @@ export class NoteService {
 
 	/**
 	 * Get notes with a specific context that have a particular action type
-	 * For memorize notes, filter by FSRS due date instead of seen-you-again timestamp
-	 * For other action types, prioritize notes not seen today
+	 * For memorize notes, filter by FSRS due date instead of seen-you-again timestamp: due reviews in review order, then new cards up to the limit
+	 * For other action types, skip notes still in their recurrence cooldown and prioritize notes not seen today in this context
 	 */
-	getNotesWithContextAndActionType(sanitizedContext: string, actionType: ActionType): TFile[] {
-		const allFiles = this.getAllMarkdownFiles();
+	getNotesWithContextAndActionType(
+		sanitizedContext: string,
+		actionType: ActionTypeId,
+		options: NoteSelectionOptions = DEFAULT_SELECTION_OPTIONS
+	): TFile[] {
 		const unseenNonMemorizeFiles: TFile[] = [];
-		const seenNonMemorizeFiles: TFile[] = [];
+		const seenNonMemorizeNotes: IndexedNote[] = [];
 		const unseenMemorizeFiles: TFile[] = [];
 		const dueMemorizeFiles: TFile[] = [];
 		const currentDate = new Date();
 
-		for (const file of allFiles) {
-			try {
-				const fileCache = this.app.metadataCache.getFileCache(file);
-				const frontmatter = fileCache?.frontmatter;
-
-				if (frontmatter && typeof frontmatter === 'object' && 'see-you-again' in frontmatter) {
-					const seeYouAgain: unknown = frontmatter['see-you-again'];
-
-					// Handle object format (current implementation)
-					if (typeof seeYouAgain === 'object' && seeYouAgain !== null && !Array.isArray(seeYouAgain)) {
-						const seeYouAgainObj = seeYouAgain as Record<string, unknown>;
-						// Check if this note has the context AND the specific action type
-						if (seeYouAgainObj[sanitizedContext] === actionType) {
-							if (actionType === 'memorize') {
-								// For memorize notes, use FSRS due date logic
-								const hasCardData = this.fsrsService.hasCardData(file);
-								if (!hasCardData) {
-									// No FSRS data = unseen, add to unseen list
-									unseenMemorizeFiles.push(file);
-								} else {
-									// Check if due for review
-									const dueDate = this.fsrsService.getCardDueDate(file);
-									if (dueDate && dueDate <= currentDate) {
-										dueMemorizeFiles.push(file);
-									}
-								}
-							} else {
-								// For other action types, check if note was seen today
-								const lastSeen: unknown = frontmatter['seen-you-again'];
-								if (this.wasSeenToday(lastSeen as string | undefined)) {
-									seenNonMemorizeFiles.push(file);
-								} else {
-									unseenNonMemorizeFiles.push(file);
-								}
-							}
-						}
+		for (const note of this.contextIndex.getNotesWithContext(sanitizedContext)) {
+			// Check if this note has the context AND the specific action type
+			if (note.contexts[sanitizedContext] !== actionType) {
+				continue;
+			}
+
+			const file = note.file;
+			if (actionType === 'memorize') {
+				// For memorize notes, use FSRS due date logic
+				const hasCardData = this.fsrsService.hasCardData(file, sanitizedContext);
+				if (!hasCardData) {
+					// No FSRS data = unseen, add to unseen list
+					unseenMemorizeFiles.push(file);
+				} else {
+					// Check if due for review
+					const dueDate = this.fsrsService.getCardDueDate(file, sanitizedContext);
+					if (dueDate && dueDate <= currentDate) {
+						dueMemorizeFiles.push(file);
 					}
 				}
-			} catch (error) {
-				// Skip files with invalid frontmatter
+			} else {
+				// Notes with a recurrence rule don't come up again until their interval has passed
+				const lastSeen = this.getLastSeen(note, sanitizedContext);
+				if (this.recurrenceService.isInCooldown(file, sanitizedContext, lastSeen)) {
+					continue;
+				}
+				// For other action types, check if note was seen today in this context
+				if (this.wasSeenToday(lastSeen)) {
+					seenNonMemorizeNotes.push(note);
+				} else {
+					unseenNonMemorizeFiles.push(file);
+				}
 			}
 		}
 
-		// For memorize notes: return up to 20 unseen, then due notes
+		// For memorize notes: return due notes, then as many unseen notes as may still be introduced today
 		if (actionType === 'memorize') {
-			const limitedUnseen = unseenMemorizeFiles.slice(0, 20);
-			return [...limitedUnseen, ...dueMemorizeFiles];
+			const limitedUnseen = unseenMemorizeFiles.slice(0, Math.max(0, options.newCardsRemaining));
+			const orderedDue = options.reviewOrder === 'random'
+				? dueMemorizeFiles
+				: [...dueMemorizeFiles].sort((a, b) =>
+					this.getReviewPriority(a, sanitizedContext, options, currentDate) -
+					this.getReviewPriority(b, sanitizedContext, options, currentDate));
+			return [...orderedDue, ...limitedUnseen];
 		}
 
 		// For other action types: return unseen notes first, then seen notes (only if no unseen available)
 		if (unseenNonMemorizeFiles.length > 0) {
 			return unseenNonMemorizeFiles;
 		}
-		return seenNonMemorizeFiles;
+		return this.sortByLastSeen(seenNonMemorizeNotes, sanitizedContext);
 	}
 
 	/**
-	 * Get a random note with a specific context, prioritizing a specific action type
-	 * Falls back to any action type if none found for the preferred type
+	 * Get the action types that have notes to show right now in any of the given contexts
 	 */
-	getRandomNoteWithContextPrioritized(
-		sanitizedContext: string,
-		preferredActionType: ActionType | null
-	): { file: TFile; actionType: ActionType } | null {
-
-		// First try to find notes with the preferred action type
-		if (preferredActionType) {
-			const preferredNotes = this.getNotesWithContextAndActionType(sanitizedContext, preferredActionType);
-
-			if (preferredNotes.length > 0) {
-				const randomIndex = Math.floor(Math.random() * preferredNotes.length);
-				const selectedFile = preferredNotes[randomIndex];
+	getAvailableActionTypes(sanitizedContexts: string[], options: NoteSelectionOptions = DEFAULT_SELECTION_OPTIONS): ActionTypeId[] {
+		const available = new Set<ActionTypeId>();
+		for (const context of sanitizedContexts) {
+			const actionTypes = new Set(this.contextIndex.getNotesWithContext(context).map(note => note.contexts[context]));
+			actionTypes.forEach(actionType => {
+				if (available.has(actionType) || (actionType === 'memorize' && options.memorizeBlockedContexts.includes(context))) {
+					return;
+				}
+				if (this.getNotesWithContextAndActionType(context, actionType, options).length > 0) {
+					available.add(actionType);
+				}
+			});
+		}
+		return Array.from(available);
+	}
 
+	/**
+	 * Get a random note from any of the given contexts, prioritizing the preferred action type
+	 * Memorize reviews are picked in the configured review order instead of randomly, unless the order is "random"
+	 * Returns the context the note was drawn from along with its action type
+	 */
+	getRandomNoteFromContextsPrioritized(
+		sanitizedContexts: string[],
+		preferredActionType: ActionTypeId | null,
+		options: NoteSelectionOptions = DEFAULT_SELECTION_OPTIONS
+	): { file: TFile; actionType: ActionTypeId; context: string } | null {
+		const { memorizeBlockedContexts } = options;
+
+		// First try to find notes with the preferred action type in any of the contexts
+		if (preferredActionType !== null) {
+			const preferredContexts = preferredActionType === 'memorize'
+				? sanitizedContexts.filter(context => !memorizeBlockedContexts.includes(context))
+				: sanitizedContexts;
+			const preferredCandidates = preferredContexts.flatMap(context =>
+				this.getNotesWithContextAndActionType(context, preferredActionType, options).map(file => ({ file, context }))
+			);
+
+			if (preferredCandidates.length > 0) {
+				const selected = preferredActionType === 'memorize'
+					? this.pickMemorizeCandidate(preferredCandidates, options)
+					: preferredCandidates[Math.floor(Math.random() * preferredCandidates.length)];
 
 				return {
-					file: selectedFile,
-					actionType: preferredActionType
+					file: selected.file,
+					actionType: preferredActionType,
+					context: selected.context
 				};
-			} else {
-				// No preferred notes found
 			}
 		}
 
-		// Fallback to any note with this context
-		const allNotesWithContext = this.getNotesWithContext(sanitizedContext);
+		// Fallback to any note with one of these contexts
+		// Memorize notes only count if they are due or may still be introduced today, like in the preferred pick
+		const allCandidates = sanitizedContexts.flatMap(context => {
+			const otherFiles = this.getNotesWithContext(context)
+				.filter(file => this.getFrontmatter(file)[context] !== 'memorize');
+			const memorizeFiles = memorizeBlockedContexts.includes(context)
+				? []
+				: this.getNotesWithContextAndActionType(context, 'memorize', options);
+			return [...otherFiles, ...memorizeFiles].map(file => ({ file, context }));
+		});
 
-		if (allNotesWithContext.length === 0) {
+		if (allCandidates.length === 0) {
 			return null;
 		}
 
-		const randomIndex = Math.floor(Math.random() * allNotesWithContext.length);
-		const selectedFile = allNotesWithContext[randomIndex];
-
-		// Get the action type for this file
-		const frontmatter = this.getFrontmatter(selectedFile);
-		const actualActionType = frontmatter[sanitizedContext];
+		const randomIndex = Math.floor(Math.random() * allCandidates.length);
+		const selected = allCandidates[randomIndex];
 
+		// Get the action type for this file in the context it was drawn from
+		const frontmatter = this.getFrontmatter(selected.file);
+		const actualActionType = frontmatter[selected.context];
 
 		return {
-			file: selectedFile,
-			actionType: actualActionType || 'look-at' // Default fallback
+			file: selected.file,
+			actionType: typeof actualActionType === 'string' && actualActionType !== '' ? actualActionType : 'look-at', // Default fallback
+			context: selected.context
 		};
 	}
 
@@ -304,49 +317,138 @@ export class NoteService {
 	 * Get existing see-you-again frontmatter for a file
 	 */
 	getFrontmatter(file: TFile): SeeYouAgainFrontmatter {
-		try {
-			const fileCache = this.app.metadataCache.getFileCache(file);
-			const frontmatter = fileCache?.frontmatter;
+		return this.contextIndex.getNote(file)?.contexts ?? {};
+	}
 
-			if (frontmatter && typeof frontmatter === 'object' && 'see-you-again' in frontmatter) {
-				const seeYouAgain: unknown = frontmatter['see-you-again'];
+	/**
+	 * Get the raw FSRS learning data stored in a note's frontmatter
+	 */
+	getLearningData(file: TFile): unknown {
+		return this.contextIndex.getNote(file)?.learningData;
+	}
 
-				// Handle object format (current implementation)
-				if (typeof seeYouAgain === 'object' && seeYouAgain !== null && !Array.isArray(seeYouAgain)) {
-					return seeYouAgain as SeeYouAgainFrontmatter;
-				}
-			}
+	/**
+	 * Get the raw per-context sub-card data (e.g. of cloze deletions) stored in a note's frontmatter
+	 */
+	getSubCardData(file: TFile): unknown {
+		return this.contextIndex.getNote(file)?.subCards;
+	}
+
+	/**
+	 * Get the raw reverse card option stored in a note's frontmatter
+	 */
+	getReverseOption(file: TFile): unknown {
+		return this.contextIndex.getNote(file)?.reverse;
+	}
+
+	/**
+	 * Get the raw per-context recurrence rules stored in a note's frontmatter
+	 */
+	getRecurrenceData(file: TFile): unknown {
+		return this.contextIndex.getNote(file)?.recurrence;
+	}
 
-			return {};
-		} catch (error) {
-			return {};
+	/**
+	 * Pick the memorize note to show next: the first due review in review order, or a random note
+	 */
+	private pickMemorizeCandidate(candidates: { file: TFile; context: string }[], options: NoteSelectionOptions): { file: TFile; context: string } {
+		const reviews = options.reviewOrder === 'random'
+			? []
+			: candidates.filter(candidate => !this.isNewCard(candidate.file, candidate.context));
+		if (reviews.length === 0) {
+			return candidates[Math.floor(Math.random() * candidates.length)];
 		}
+
+		const now = new Date();
+		const priorityOf = (candidate: { file: TFile; context: string }): number =>
+			this.getReviewPriority(candidate.file, candidate.context, options, now);
+		return reviews.reduce((best, candidate) => priorityOf(candidate) < priorityOf(best) ? candidate : best);
 	}
 
 	/**
-	 * Check if a note was seen today (using human-day logic with 4am cutoff)
+	 * Sort key of a due memorize note for a review order, lower comes first
+	 * Most overdue sorts by due date, lowest retrievability by the predicted chance of remembering the note
 	 */
-	private wasSeenToday(lastSeenDate: string | undefined): boolean {
-		if (lastSeenDate === null || lastSeenDate === undefined || lastSeenDate === '') { return false; }
-		if (!DateUtils.isValidDateString(lastSeenDate)) { return false; }
-		return DateUtils.isToday(lastSeenDate);
+	private getReviewPriority(file: TFile, sanitizedContext: string, options: NoteSelectionOptions, now: Date): number {
+		if (options.reviewOrder === 'retrievability') {
+			return this.fsrsService.getRetrievability(file, sanitizedContext, now, options.getSchedulingParameters(sanitizedContext)) ?? 1;
+		}
+		return this.fsrsService.getCardDueDate(file, sanitizedContext)?.getTime() ?? now.getTime();
 	}
 
 	/**
-	 * Mark a note as seen today
+	 * Get when a note was last seen in a context (a timestamp, or a plain date written by older versions)
+	 * Legacy notes store a single date that is shared by all contexts
 	 */
-	async markNoteSeen(file: TFile): Promise<void> {
-		const currentHumanDay = DateUtils.getCurrentHumanDay();
-		await this.app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
-			frontmatter['seen-you-again'] = currentHumanDay;
+	private getLastSeen(note: IndexedNote, sanitizedContext: string): string | undefined {
+		if (typeof note.seen === 'string') {
+			return note.seen;
+		}
+		if (note.seen !== null && typeof note.seen === 'object' && !Array.isArray(note.seen)) {
+			const seen: unknown = (note.seen as Record<string, unknown>)[sanitizedContext];
+			return typeof seen === 'string' ? seen : undefined;
+		}
+		return undefined;
+	}
+
+	/**
+	 * Check if a seen value falls on today (using human-day logic with the configured rollover hour)
+	 */
+	private wasSeenToday(lastSeen: string | undefined): boolean {
+		if (lastSeen === undefined || lastSeen === '') { return false; }
+		const lastSeenDay = DateUtils.toHumanDay(lastSeen);
+		return lastSeenDay !== null && DateUtils.isToday(lastSeenDay);
+	}
+
+	/**
+	 * Order notes by when they were last seen in a context, least recently seen first
+	 */
+	private sortByLastSeen(notes: IndexedNote[], sanitizedContext: string): TFile[] {
+		const timeOf = (note: IndexedNote): number => {
+			const lastSeen = this.getLastSeen(note, sanitizedContext);
+			const time = lastSeen === undefined ? NaN : new Date(lastSeen).getTime();
+			return isNaN(time) ? 0 : time;
+		};
+		return [...notes]
+			.sort((a, b) => timeOf(a) - timeOf(b))
+			.map(note => note.file);
+	}
+
+	/**
+	 * Mark a note as seen now in a context
+	 * A legacy single date is kept for the note's other contexts on the first write
+	 */
+	async markNoteSeen(file: TFile, sanitizedContext: string): Promise<void> {
+		const now = new Date().toISOString();
+		const otherContexts = Object.keys(this.getFrontmatter(file)).filter(context => context !== sanitizedContext);
+
+		await this.processFrontMatter(file, (frontmatter) => {
+			const current = frontmatter[SEEN_PROPERTY];
+			const seen: Record<string, unknown> = {};
+			if (typeof current === 'string') {
+				otherContexts.forEach(context => {
+					seen[context] = current;
+				});
+			} else if (current !== null && typeof current === 'object' && !Array.isArray(current)) {
+				Object.assign(seen, current);
+			}
+			seen[sanitizedContext] = now;
+			frontmatter[SEEN_PROPERTY] = seen;
 		});
 	}
 
+	/**
+	 * Move the seen timestamps of renamed contexts to their new context, dropping those of deleted (null) contexts
+	 */
+	async moveSeenEntries(file: TFile, replacements: Record<string, string | null>): Promise<void> {
+		await this.moveContextEntries(file, SEEN_PROPERTY, replacements);
+	}
+
 	/**
 	 * Remove a specific context from a note's see-you-again metadata
 	 */
 	async removeContext(file: TFile, sanitizedContext: string): Promise<void> {
-		await this.app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+		await this.processFrontMatter(file, (frontmatter) => {
 			const seeYouAgain = frontmatter['see-you-again'];
 			if (seeYouAgain !== null && seeYouAgain !== undefined && typeof seeYouAgain === 'object' && !Array.isArray(seeYouAgain)) {
 				const seeYouAgainObj = seeYouAgain as Record<string, unknown>;
@@ -360,16 +462,111 @@ export class NoteService {
 		});
 	}
 
+	/**
+	 * Re-add a context with its action to a note's see-you-again metadata (used to undo a removal)
+	 */
+	async restoreContext(file: TFile, sanitizedContext: string, actionType: ActionTypeId): Promise<void> {
+		await this.processFrontMatter(file, (frontmatter) => {
+			const seeYouAgain = frontmatter['see-you-again'];
+			const seeYouAgainObj = (seeYouAgain !== null && seeYouAgain !== undefined && typeof seeYouAgain === 'object' && !Array.isArray(seeYouAgain))
+				? seeYouAgain as Record<string, unknown>
+				: {};
+			seeYouAgainObj[sanitizedContext] = actionType;
+			frontmatter['see-you-again'] = seeYouAgainObj;
+		});
+	}
+
+	/**
+	 * Rename contexts in a note's see-you-again metadata, removing contexts mapped to null
+	 * If the note already has the target context, its existing action type is kept
+	 */
+	async replaceContexts(file: TFile, replacements: Record<string, string | null>): Promise<void> {
+		await this.processFrontMatter(file, (frontmatter) => {
+			const seeYouAgain = frontmatter['see-you-again'];
+			if (seeYouAgain === null || seeYouAgain === undefined || typeof seeYouAgain !== 'object' || Array.isArray(seeYouAgain)) {
+				return;
+			}
+
+			const updated = this.moveContextKeys(seeYouAgain as Record<string, unknown>, replacements);
+
+			// If no contexts remain, remove the entire see-you-again property
+			if (Object.keys(updated).length === 0) {
+				delete frontmatter['see-you-again'];
+			} else {
+				frontmatter['see-you-again'] = updated;
+			}
+		});
+	}
+
+	/**
+	 * Re-key a per-context map stored in a frontmatter property (e.g. learning data), removing contexts mapped to null
+	 * An entry already stored for the target context wins
+	 */
+	async moveContextEntries(file: TFile, property: string, replacements: Record<string, string | null>): Promise<void> {
+		await this.processFrontMatter(file, (frontmatter) => {
+			const current = frontmatter[property];
+			if (current === null || current === undefined || typeof current !== 'object' || Array.isArray(current)) {
+				return;
+			}
+			frontmatter[property] = this.moveContextKeys(current as Record<string, unknown>, replacements);
+		});
+	}
 
 	/**
 	 * Set a specific property in note frontmatter
 	 */
 	async setFrontmatterProperty(file: TFile, property: string, value: unknown): Promise<void> {
-		await this.app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+		await this.processFrontMatter(file, (frontmatter) => {
 			frontmatter[property] = value;
 		});
 	}
 
+	/**
+	 * Update a specific property in note frontmatter based on its current value
+	 * Returning undefined from the updater removes the property
+	 */
+	async updateFrontmatterProperty(file: TFile, property: string, updater: (current: unknown) => unknown): Promise<void> {
+		await this.processFrontMatter(file, (frontmatter) => {
+			const value = updater(frontmatter[property]);
+			if (value === undefined) {
+				delete frontmatter[property];
+			} else {
+				frontmatter[property] = value;
+			}
+		});
+	}
+
+	/**
+	 * Rename the keys of a per-context map; entries already present under the target key win
+	 */
+	private moveContextKeys(original: Record<string, unknown>, replacements: Record<string, string | null>): Record<string, unknown> {
+		const updated: Record<string, unknown> = {};
+		for (const [context, value] of Object.entries(original)) {
+			if (!(context in replacements)) {
+				updated[context] = value;
+			}
+		}
+		for (const [context, value] of Object.entries(original)) {
+			const target = replacements[context];
+			if (context in replacements && target !== null && !(target in updated)) {
+				updated[target] = value;
+			}
+		}
+		return updated;
+	}
+
+	/**
+	 * Run a frontmatter update and immediately reflect the result in the context index
+	 */
+	private async processFrontMatter(file: TFile, fn: (frontmatter: Record<string, unknown>) => void): Promise<void> {
+		let updatedFrontmatter: Record<string, unknown> | undefined;
+		await this.app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+			fn(frontmatter);
+			updatedFrontmatter = frontmatter;
+		});
+		this.contextIndex.updateFromFrontmatter(file, updatedFrontmatter);
+	}
+
 	/**
 	 * Delete a note from the vault
 	 */
@@ -1,21 +1,66 @@
-import { Plugin } from 'obsidian';
+import type { WorkspaceLeaf } from 'obsidian';
+import { Plugin, TFile, Notice, normalizePath } from 'obsidian';
 
 import type { SeeYouAgainSettings} from './types';
 import { DEFAULT_SETTINGS } from './types';
 import { AddContextModal } from './modals/addContextModal';
 import { BatchAddContextModal } from './modals/batchAddContextModal';
 import { ContextBrowserModal } from './modals/contextBrowserModal';
+import { ContextNoteViewerModal } from './modals/contextNoteViewerModal';
 import { CurrentNoteContextModal } from './modals/currentNoteContextModal';
+import { ManageContextsModal } from './modals/manageContextsModal';
 import { SeeYouAgainSettingTab } from './settings';
 import { StateManager } from './state/stateManager';
+import { ContextIndex } from './services/contextIndex';
+import { ReviewLogService } from './services/reviewLogService';
+import { ContextMaintenanceService } from './services/contextMaintenanceService';
+import type { UndoableQueue } from './state/undoStack';
+import { UndoStack } from './state/undoStack';
+import { ActionTypeUsageTracker } from './state/actionTypeUsageTracker';
+import { DailyProgressTracker } from './state/dailyProgressTracker';
+import { ContextAvailabilityConfig } from './config/contextAvailability';
+import { DateUtils } from './utils/dateUtils';
+import { ContextQueueView, VIEW_TYPE_CONTEXT_QUEUE } from './views/contextQueueView';
+import { StatisticsView, VIEW_TYPE_STATISTICS } from './views/statisticsView';
 
 export class SeeYouAgainPlugin extends Plugin {
 	settings: SeeYouAgainSettings = DEFAULT_SETTINGS;
 	stateManager: StateManager = new StateManager();
+	contextIndex: ContextIndex = new ContextIndex(this.app);
+	reviewLog: ReviewLogService = new ReviewLogService(this.app, this.getPluginFilePath('review-log.jsonl'));
+	activeQueue: UndoableQueue | null = null;
+	queueUndoStack: UndoStack = new UndoStack();
+	actionTypeUsage: ActionTypeUsageTracker = new ActionTypeUsageTracker(this);
+	dailyProgress: DailyProgressTracker = new DailyProgressTracker(this);
+	private isMigratingContextKeys = false;
 
 	async onload(): Promise<void> {
 		await this.loadSettings();
 
+		// Build the context index once the vault is loaded and keep it current
+		this.contextIndex.register(this);
+
+		// Convert context keys from the old dash-sanitized format once the frontmatter of every note is known
+		this.app.workspace.onLayoutReady(() => {
+			void this.migrateContextKeys();
+		});
+		this.registerEvent(this.app.metadataCache.on('resolved', () => {
+			void this.migrateContextKeys();
+		}));
+
+		// Register the queue view for running queues in a tab or the sidebar
+		this.registerView(VIEW_TYPE_CONTEXT_QUEUE, (leaf) => new ContextQueueView(leaf, this));
+
+		// Register the statistics view
+		this.registerView(VIEW_TYPE_STATISTICS, (leaf) => new StatisticsView(leaf, this));
+
+		// Keep the review history pointing at renamed notes
+		this.registerEvent(this.app.vault.on('rename', (file, oldPath) => {
+			if (file instanceof TFile && file.extension === 'md') {
+				this.reviewLog.renameNote(oldPath, file.path).catch(error => console.error('Failed to update review log:', error));
+			}
+		}));
+
 		// Add command to open the Add Context modal
 		this.addCommand({
 			id: 'open-add-context-modal',
@@ -43,6 +88,33 @@ export class SeeYouAgainPlugin extends Plugin {
 			}
 		});
 
+		// Add command to start a queue for whichever contexts apply at this time
+		this.addCommand({
+			id: 'start-queue-for-active-contexts',
+			name: 'Start queue for contexts active now',
+			callback: () => {
+				const activeContexts = ContextAvailabilityConfig.getActiveContexts(
+					this.settings,
+					Object.keys(this.settings.contextAvailability)
+				);
+				if (activeContexts.length === 0) {
+					new Notice('No context is active right now. Set time windows in the plugin settings.');
+					return;
+				}
+				this.stateManager.clearNavigationState();
+				void this.openQueue(activeContexts);
+			}
+		});
+
+		// Add command to open the queue view without choosing a context yet
+		this.addCommand({
+			id: 'open-queue-view',
+			name: 'Open queue view',
+			callback: () => {
+				void this.activateQueueView();
+			}
+		});
+
 		// Add command to manage contexts for currently open note
 		this.addCommand({
 			id: 'manage-current-note-contexts',
@@ -52,6 +124,40 @@ export class SeeYouAgainPlugin extends Plugin {
 			}
 		});
 
+		// Add command to rename, merge or delete contexts across the vault
+		this.addCommand({
+			id: 'manage-contexts',
+			name: 'Manage contexts (rename, merge, delete)',
+			callback: () => {
+				new ManageContextsModal(this.app, this).open();
+			}
+		});
+
+		// Add command to open the statistics dashboard
+		this.addCommand({
+			id: 'open-statistics',
+			name: 'Open statistics',
+			callback: () => {
+				void this.activateStatisticsView();
+			}
+		});
+
+		// Add command to undo the last action of the running queue
+		this.addCommand({
+			id: 'undo-last-queue-action',
+			name: 'Undo last action in context queue',
+			checkCallback: (checking: boolean) => {
+				const queue = this.activeQueue;
+				if (!queue || !queue.canUndo()) {
+					return false;
+				}
+				if (!checking) {
+					void queue.undoLastAction();
+				}
+				return true;
+			}
+		});
+
 		// Add sidebar button for starting context browser
 		this.addRibbonIcon('swords', 'Start queue for context...', () => {
 			new ContextBrowserModal(this.app, this).open();
@@ -73,9 +179,118 @@ export class SeeYouAgainPlugin extends Plugin {
 	async loadSettings(): Promise<void> {
 		const loadedData: unknown = await this.loadData();
 		this.settings = Object.assign({}, DEFAULT_SETTINGS, loadedData as Partial<SeeYouAgainSettings>);
+		DateUtils.configure(this.settings.dayRolloverHour, this.settings.timeZone);
 	}
 
 	async saveSettings(): Promise<void> {
+		DateUtils.configure(this.settings.dayRolloverHour, this.settings.timeZone);
 		await this.saveData(this.settings);
 	}
+
+	/**
+	 * Open the queue for one or more contexts in the configured location
+	 */
+	async openQueue(sanitizedContexts: string[]): Promise<void> {
+		if (this.settings.queueLocation === 'modal') {
+			new ContextNoteViewerModal(this.app, this, sanitizedContexts).open();
+			return;
+		}
+
+		const view = await this.activateQueueView();
+		if (view) {
+			await view.startQueue(sanitizedContexts);
+		}
+	}
+
+	/**
+	 * Reveal the queue view, opening it in the configured location if it isn't open yet
+	 */
+	private async activateQueueView(): Promise<ContextQueueView | null> {
+		const { workspace } = this.app;
+
+		let leaf: WorkspaceLeaf | null = workspace.getLeavesOfType(VIEW_TYPE_CONTEXT_QUEUE)[0] ?? null;
+		if (leaf === null) {
+			leaf = this.settings.queueLocation === 'sidebar'
+				? workspace.getRightLeaf(false)
+				: workspace.getLeaf('tab');
+			if (leaf === null) {
+				return null;
+			}
+			await leaf.setViewState({ type: VIEW_TYPE_CONTEXT_QUEUE, active: true });
+		}
+
+		await workspace.revealLeaf(leaf);
+		return leaf.view instanceof ContextQueueView ? leaf.view : null;
+	}
+
+	/**
+	 * Reveal the statistics view in a tab, refreshing it if it is already open
+	 */
+	async activateStatisticsView(): Promise<void> {
+		const { workspace } = this.app;
+
+		const existingLeaf = workspace.getLeavesOfType(VIEW_TYPE_STATISTICS)[0] ?? null;
+		if (existingLeaf !== null) {
+			await workspace.revealLeaf(existingLeaf);
+			if (existingLeaf.view instanceof StatisticsView) {
+				await existingLeaf.view.refresh();
+			}
+			return;
+		}
+
+		const leaf = workspace.getLeaf('tab');
+		await leaf.setViewState({ type: VIEW_TYPE_STATISTICS, active: true });
+		await workspace.revealLeaf(leaf);
+	}
+
+	/**
+	 * One-time migration of context keys to the lossless format
+	 * Waits until the metadata cache has every note, and stays pending if any note fails, so it is retried on the next load
+	 * The legacy keys are recorded on the first run, so a retry never rewrites keys typed after the upgrade
+	 */
+	private async migrateContextKeys(): Promise<void> {
+		if (this.settings.contextKeysMigrated || this.isMigratingContextKeys || !this.isMetadataCacheComplete()) {
+			return;
+		}
+
+		this.isMigratingContextKeys = true;
+		try {
+			// Notes indexed before their metadata was cached would otherwise be missed
+			this.contextIndex.build();
+			const maintenanceService = new ContextMaintenanceService(this.app, this);
+			if (this.settings.legacyContextKeys === null) {
+				this.settings.legacyContextKeys = maintenanceService.findLegacyContextKeys();
+				await this.saveSettings();
+			}
+
+			const result = await maintenanceService.migrateLegacyContextKeys(this.settings.legacyContextKeys);
+			if (result.updatedNotes > 0) {
+				new Notice(`See You Again: updated the context keys of ${result.updatedNotes} notes.`);
+			}
+			if (result.errors.length > 0) {
+				console.error('Failed to migrate context keys:', result.errors);
+				return;
+			}
+
+			this.settings.contextKeysMigrated = true;
+			this.settings.legacyContextKeys = [];
+			await this.saveSettings();
+		} catch (error) {
+			console.error('Failed to migrate context keys:', error);
+		} finally {
+			this.isMigratingContextKeys = false;
+		}
+	}
+
+	private isMetadataCacheComplete(): boolean {
+		return this.app.vault.getMarkdownFiles().every(file => this.app.metadataCache.getFileCache(file) !== null);
+	}
+
+	/**
+	 * Get the path of a file inside the plugin's own folder
+	 */
+	private getPluginFilePath(fileName: string): string {
+		const pluginDir = this.manifest.dir ?? `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+		return normalizePath(`${pluginDir}/${fileName}`);
+	}
 }
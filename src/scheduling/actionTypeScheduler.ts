@@ -1,8 +1,9 @@
-import type { ActionType } from '../types';
-import { ActionTypeWeightsConfig } from '../config/actionTypeWeights';
+import type { ActionTypeId } from '../types';
+import type { ActionTypeWeights } from '../config/actionTypeWeights';
+import { ActionTypeWeightsConfig, DEFAULT_ACTION_TYPE_WEIGHTS } from '../config/actionTypeWeights';
 
 export interface ActionTypeStats {
-  actionType: ActionType;
+  actionType: ActionTypeId;
   actualCount: number;
   expectedCount: number;
   expectedPercentage: number;
@@ -13,9 +14,16 @@ export interface ActionTypeStats {
 export class ActionTypeScheduler {
   /**
    * Determine which action type is most underpicked based on weights vs actual usage
+   * If available action types are given, only those compete (types without notes to show would otherwise always win)
    */
-  static getMostUnderpickedActionType(actionTypeUsage: Record<ActionType, number>): ActionType | null {
-    const stats = this.calculateActionTypeStats(actionTypeUsage);
+  static getMostUnderpickedActionType(
+    actionTypeUsage: Record<string, number>,
+    weights: ActionTypeWeights = DEFAULT_ACTION_TYPE_WEIGHTS,
+    availableActionTypes: ActionTypeId[] | null = null
+  ): ActionTypeId | null {
+    const isAvailable = (actionType: string): boolean =>
+      availableActionTypes === null || availableActionTypes.some(available => available === actionType);
+    const stats = this.calculateActionTypeStats(this.filterActionTypes(actionTypeUsage, isAvailable), this.filterActionTypes(weights, isAvailable));
     
     // Sort by deficit ratio (highest first = most underrepresented)
     stats.sort((a, b) => b.deficitRatio - a.deficitRatio);
@@ -34,18 +42,20 @@ export class ActionTypeScheduler {
   /**
    * Calculate detailed statistics for all action types
    */
-  static calculateActionTypeStats(actionTypeUsage: Record<ActionType, number>): ActionTypeStats[] {
+  static calculateActionTypeStats(
+    actionTypeUsage: Record<string, number>,
+    weights: ActionTypeWeights = DEFAULT_ACTION_TYPE_WEIGHTS
+  ): ActionTypeStats[] {
     const totalActualUsage = Object.values(actionTypeUsage).reduce((sum, count) => sum + count, 0);
-    ActionTypeWeightsConfig.getTotalWeight();
     
     // If no notes have been processed yet, all action types are equally underpicked
     // Return them sorted by weight (highest weight first)
     if (totalActualUsage === 0) {
-      return ActionTypeWeightsConfig.getActionTypesByWeight().map(({ actionType, weight }) => ({
+      return ActionTypeWeightsConfig.getActionTypesByWeight(weights).map(({ actionType, weight }) => ({
         actionType,
         actualCount: 0,
         expectedCount: 0,
-        expectedPercentage: ActionTypeWeightsConfig.getExpectedPercentage(actionType),
+        expectedPercentage: ActionTypeWeightsConfig.getExpectedPercentage(actionType, weights),
         actualPercentage: 0,
         deficitRatio: weight // Use weight as initial deficit ratio
       }));
@@ -53,9 +63,9 @@ export class ActionTypeScheduler {
     
     const stats: ActionTypeStats[] = [];
     
-    for (const [actionType, actualCount] of Object.entries(actionTypeUsage) as [ActionType, number][]) {
-      const weight = ActionTypeWeightsConfig.getWeight(actionType);
-      const expectedPercentage = ActionTypeWeightsConfig.getExpectedPercentage(actionType);
+    for (const [actionType, actualCount] of Object.entries(actionTypeUsage) as [ActionTypeId, number][]) {
+      const weight = ActionTypeWeightsConfig.getWeight(actionType, weights);
+      const expectedPercentage = ActionTypeWeightsConfig.getExpectedPercentage(actionType, weights);
       const actualPercentage = totalActualUsage > 0 ? (actualCount / totalActualUsage) * 100 : 0;
       const expectedCount = Math.round((expectedPercentage / 100) * totalActualUsage);
       
@@ -87,8 +97,11 @@ export class ActionTypeScheduler {
   /**
    * Get a summary of current action type distribution for logging/debugging
    */
-  static getUsageSummary(actionTypeUsage: Record<ActionType, number>): string {
-    const stats = this.calculateActionTypeStats(actionTypeUsage);
+  static getUsageSummary(
+    actionTypeUsage: Record<string, number>,
+    weights: ActionTypeWeights = DEFAULT_ACTION_TYPE_WEIGHTS
+  ): string {
+    const stats = this.calculateActionTypeStats(actionTypeUsage, weights);
     const totalUsage = Object.values(actionTypeUsage).reduce((sum, count) => sum + count, 0);
     
     let summary = `Action Type Usage Summary (Total: ${totalUsage}):\n`;
@@ -103,4 +116,14 @@ export class ActionTypeScheduler {
     
     return summary;
   }
-}
\ No newline at end of file
+
+  private static filterActionTypes(record: Record<string, number>, include: (actionType: string) => boolean): Record<string, number> {
+    const filtered: Record<string, number> = {};
+    for (const [actionType, value] of Object.entries(record)) {
+      if (include(actionType)) {
+        filtered[actionType] = value;
+      }
+    }
+    return filtered;
+  }
+}
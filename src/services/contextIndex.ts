@@ -0,0 +1,208 @@
+import type { App, CachedMetadata, Plugin, TAbstractFile } from 'obsidian';
+import { TFile } from 'obsidian';
+
+import type { SeeYouAgainFrontmatter } from '../types';
+
+/**
+ * Snapshot of the plugin-relevant frontmatter of a single note
+ */
+export interface IndexedNote {
+	file: TFile;
+	hasMetadata: boolean;
+	contexts: SeeYouAgainFrontmatter;
+	/** Per-context seen timestamps, or a single date written by older versions */
+	seen: unknown;
+	learningData: unknown;
+	recurrence: unknown;
+	subCards: unknown;
+	/** Whether memorize reviews also ask the note in reverse, overriding the context setting */
+	reverse: unknown;
+}
+
+/**
+ * In-memory index of context -> notes -> action type, including seen and learning data.
+ * Built once on load and kept current through metadata cache and vault events,
+ * so queries never have to walk the whole vault.
+ */
+export class ContextIndex {
+	private notes: Map<string, IndexedNote> = new Map();
+	private notesByContext: Map<string, Set<string>> = new Map();
+	private isBuilt = false;
+
+	constructor(private app: App) {}
+
+	/**
+	 * Hook the index into the plugin lifecycle so event handlers are removed on unload
+	 */
+	register(plugin: Plugin): void {
+		plugin.registerEvent(this.app.metadataCache.on('changed', (file, _data, cache) => {
+			this.indexFile(file, cache);
+		}));
+		plugin.registerEvent(this.app.vault.on('rename', (file, oldPath) => {
+			this.handleRename(file, oldPath);
+		}));
+		plugin.registerEvent(this.app.vault.on('delete', (file) => {
+			this.handleDelete(file);
+		}));
+
+		this.app.workspace.onLayoutReady(() => this.build());
+	}
+
+	/**
+	 * (Re)build the whole index from the metadata cache
+	 */
+	build(): void {
+		this.notes.clear();
+		this.notesByContext.clear();
+
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			this.indexFile(file, this.app.metadataCache.getFileCache(file));
+		}
+
+		this.isBuilt = true;
+	}
+
+	/**
+	 * Get all indexed markdown notes
+	 */
+	getAllNotes(): IndexedNote[] {
+		this.ensureBuilt();
+		return Array.from(this.notes.values());
+	}
+
+	/**
+	 * Get the index entry for a single note
+	 */
+	getNote(file: TFile): IndexedNote | undefined {
+		this.ensureBuilt();
+		return this.notes.get(file.path);
+	}
+
+	/**
+	 * Get all notes that have the given (sanitized) context
+	 */
+	getNotesWithContext(sanitizedContext: string): IndexedNote[] {
+		this.ensureBuilt();
+		const paths = this.notesByContext.get(sanitizedContext);
+		if (!paths) {
+			return [];
+		}
+
+		const result: IndexedNote[] = [];
+		paths.forEach(path => {
+			const note = this.notes.get(path);
+			if (note) {
+				result.push(note);
+			}
+		});
+		return result;
+	}
+
+	/**
+	 * Get all (sanitized) context keys that are used by at least one note
+	 */
+	getContextKeys(): string[] {
+		this.ensureBuilt();
+		return Array.from(this.notesByContext.keys());
+	}
+
+	/**
+	 * Update a note from freshly written frontmatter, without waiting for the metadata cache
+	 */
+	updateFromFrontmatter(file: TFile, frontmatter: Record<string, unknown> | undefined): void {
+		this.removePath(file.path);
+
+		const seeYouAgain: unknown = frontmatter?.['see-you-again'];
+		const contexts: SeeYouAgainFrontmatter = (typeof seeYouAgain === 'object' && seeYouAgain !== null && !Array.isArray(seeYouAgain))
+			? { ...seeYouAgain as SeeYouAgainFrontmatter }
+			: {};
+
+		const note: IndexedNote = {
+			file,
+			hasMetadata: this.hasMetadata(frontmatter),
+			contexts,
+			seen: frontmatter?.['seen-you-again'],
+			learningData: frontmatter?.['see-you-again-learning-data'],
+			recurrence: frontmatter?.['see-you-again-recurrence'],
+			subCards: frontmatter?.['see-you-again-cards'],
+			reverse: frontmatter?.['see-you-again-reverse']
+		};
+		this.notes.set(file.path, note);
+
+		for (const [context, action] of Object.entries(contexts)) {
+			if (!context.trim() || action === null || action === undefined) {
+				continue;
+			}
+			let paths = this.notesByContext.get(context);
+			if (!paths) {
+				paths = new Set();
+				this.notesByContext.set(context, paths);
+			}
+			paths.add(file.path);
+		}
+	}
+
+	private ensureBuilt(): void {
+		if (!this.isBuilt) {
+			this.build();
+		}
+	}
+
+	private indexFile(file: TFile, cache: CachedMetadata | null): void {
+		if (file.extension !== 'md') {
+			return;
+		}
+		this.updateFromFrontmatter(file, cache?.frontmatter);
+	}
+
+	private handleRename(file: TAbstractFile, oldPath: string): void {
+		if (!(file instanceof TFile)) {
+			return;
+		}
+		this.removePath(oldPath);
+		this.indexFile(file, this.app.metadataCache.getFileCache(file));
+	}
+
+	private handleDelete(file: TAbstractFile): void {
+		this.removePath(file.path);
+	}
+
+	private removePath(path: string): void {
+		const existing = this.notes.get(path);
+		if (!existing) {
+			return;
+		}
+
+		for (const context of Object.keys(existing.contexts)) {
+			const paths = this.notesByContext.get(context);
+			if (!paths) {
+				continue;
+			}
+			paths.delete(path);
+			if (paths.size === 0) {
+				this.notesByContext.delete(context);
+			}
+		}
+		this.notes.delete(path);
+	}
+
+	/**
+	 * Check if frontmatter contains see-you-again metadata with actual content
+	 */
+	private hasMetadata(frontmatter: Record<string, unknown> | undefined): boolean {
+		if (!frontmatter || !('see-you-again' in frontmatter)) {
+			return false;
+		}
+
+		const seeYouAgain: unknown = frontmatter['see-you-again'];
+		// Check if it's an empty array/object or has actual content
+		if (Array.isArray(seeYouAgain)) {
+			return seeYouAgain.length > 0;
+		}
+		if (typeof seeYouAgain === 'object' && seeYouAgain !== null) {
+			return Object.keys(seeYouAgain).length > 0;
+		}
+
+		return true;
+	}
+}
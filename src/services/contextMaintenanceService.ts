@@ -0,0 +1,273 @@
+import type { App, TFile } from 'obsidian';
+
+import type { ActionTypeId, SeeYouAgainPlugin } from '../types';
+import type { ActionTypeUsageHistory } from '../state/actionTypeUsageTracker';
+import { NoteService } from '../noteService';
+import { FSRSService } from './fsrsService';
+import { RecurrenceService } from './recurrenceService';
+import { ContextUtils } from '../utils/contextUtils';
+
+/**
+ * A single context change on a single note, as planned by a rename, merge or delete
+ */
+export interface ContextChange {
+	file: TFile;
+	fromContext: string;
+	/** Null when the context is deleted */
+	toContext: string | null;
+	actionType: ActionTypeId;
+	/** The note already has the target context, so its existing action type is kept */
+	conflict: boolean;
+}
+
+/**
+ * A planned rename, merge or delete: the context it starts from, where it goes and the notes it touches
+ */
+export interface ContextChangePlan {
+	fromContext: string;
+	/** Null when the context is deleted */
+	toContext: string | null;
+	changes: ContextChange[];
+}
+
+/**
+ * Result of applying a context change plan
+ */
+export interface ContextChangeResult {
+	updatedNotes: number;
+	errors: string[];
+}
+
+/**
+ * Vault-wide context operations: rename, merge into another context and delete everywhere.
+ * Operations are planned first (for a dry-run preview) and then applied note by note.
+ * Sub-contexts of a nested context move along with it.
+ */
+export class ContextMaintenanceService {
+	private noteService: NoteService;
+	private fsrsService: FSRSService;
+	private recurrenceService: RecurrenceService;
+
+	constructor(app: App, private plugin: SeeYouAgainPlugin) {
+		this.noteService = new NoteService(app, plugin.contextIndex);
+		this.fsrsService = new FSRSService(this.noteService);
+		this.recurrenceService = new RecurrenceService(this.noteService);
+	}
+
+	/**
+	 * Count the notes using a context directly (sanitized key)
+	 */
+	getNoteCount(sanitizedContext: string): number {
+		return this.plugin.contextIndex.getNotesWithContext(sanitizedContext).length;
+	}
+
+	/**
+	 * Plan renaming a context (and its sub-contexts); renaming to an existing context merges into it
+	 */
+	planRename(fromContext: string, toContext: string): ContextChangePlan {
+		if (ContextUtils.isSameOrDescendant(toContext, fromContext)) {
+			throw new Error('A context cannot be moved into itself or its own sub-context');
+		}
+
+		const plan: ContextChangePlan = { fromContext, toContext, changes: [] };
+		plan.changes = this.planChanges(plan);
+		return plan;
+	}
+
+	/**
+	 * Plan removing a context (and its sub-contexts) from every note
+	 */
+	planDelete(context: string): ContextChangePlan {
+		const plan: ContextChangePlan = { fromContext: context, toContext: null, changes: [] };
+		plan.changes = this.planChanges(plan);
+		return plan;
+	}
+
+	/**
+	 * Apply planned changes note by note, then carry over settings and review history that refer to the changed contexts
+	 */
+	async apply(plan: ContextChangePlan, onProgress: (done: number, total: number) => void): Promise<ContextChangeResult> {
+		return this.applyChanges(plan.changes, context => this.mapContext(plan, context), onProgress);
+	}
+
+	/**
+	 * Find the context keys in the old dash-sanitized format, i.e. the ones the migration would change
+	 */
+	findLegacyContextKeys(): string[] {
+		return this.plugin.contextIndex.getContextKeys()
+			.filter(context => ContextUtils.migrateLegacyContextKey(context) !== context);
+	}
+
+	/**
+	 * Convert the given context keys from the old dash-sanitized format to the lossless format, in notes and settings
+	 * Other keys are left alone, so dashes typed after the upgrade are kept
+	 */
+	async migrateLegacyContextKeys(legacyKeys: string[]): Promise<ContextChangeResult> {
+		const legacyKeySet = new Set(legacyKeys);
+		const mapContext = (context: string): string | undefined =>
+			legacyKeySet.has(context) ? ContextUtils.migrateLegacyContextKey(context) : undefined;
+
+		const changes: ContextChange[] = [];
+		for (const context of this.plugin.contextIndex.getContextKeys()) {
+			const toContext = mapContext(context);
+			if (toContext !== undefined) {
+				changes.push(...this.collectChanges(context, toContext));
+			}
+		}
+
+		return this.applyChanges(changes, mapContext, () => { /* no-op */ });
+	}
+
+	private async applyChanges(
+		changes: ContextChange[],
+		mapContext: (context: string) => string | null | undefined,
+		onProgress: (done: number, total: number) => void
+	): Promise<ContextChangeResult> {
+		const changesByNote = new Map<TFile, Record<string, string | null>>();
+		for (const change of changes) {
+			const replacements = changesByNote.get(change.file) ?? {};
+			replacements[change.fromContext] = change.toContext;
+			changesByNote.set(change.file, replacements);
+		}
+
+		const errors: string[] = [];
+		let updatedNotes = 0;
+		let done = 0;
+
+		for (const [file, replacements] of changesByNote) {
+			try {
+				await this.fsrsService.moveCards(file, replacements);
+				await this.recurrenceService.moveRules(file, replacements);
+				await this.noteService.moveSeenEntries(file, replacements);
+				await this.noteService.replaceContexts(file, replacements);
+				updatedNotes++;
+			} catch (error) {
+				errors.push(`${file.basename}: ${error instanceof Error ? error.message : String(error)}`);
+			}
+
+			done++;
+			onProgress(done, changesByNote.size);
+
+			// Small delay to allow UI to update
+			if (done % 5 === 0) {
+				await new Promise(resolve => setTimeout(resolve, 1));
+			}
+		}
+
+		await this.updateSettings(mapContext);
+		await this.plugin.reviewLog.renameContexts(mapContext);
+
+		return { updatedNotes, errors };
+	}
+
+	/**
+	 * Map a context to its new key under a plan, or undefined if the plan doesn't affect it
+	 */
+	private mapContext(plan: ContextChangePlan, context: string): string | null | undefined {
+		if (!ContextUtils.isSameOrDescendant(context, plan.fromContext)) {
+			return undefined;
+		}
+		return plan.toContext === null ? null : plan.toContext + context.slice(plan.fromContext.length);
+	}
+
+	private planChanges(plan: ContextChangePlan): ContextChange[] {
+		const changes: ContextChange[] = [];
+
+		for (const context of this.plugin.contextIndex.getContextKeys()) {
+			const toContext = this.mapContext(plan, context);
+			if (toContext !== undefined) {
+				changes.push(...this.collectChanges(context, toContext));
+			}
+		}
+
+		return changes;
+	}
+
+	private collectChanges(fromContext: string, toContext: string | null): ContextChange[] {
+		return this.plugin.contextIndex.getNotesWithContext(fromContext).map(note => ({
+			file: note.file,
+			fromContext,
+			toContext,
+			actionType: note.contexts[fromContext],
+			conflict: toContext !== null && toContext in note.contexts
+		}));
+	}
+
+	/**
+	 * Carry per-context weights, availability rules, quotas, scheduling parameters, usage history, daily counts, reverse cards and groups over to the new context names
+	 */
+	private async updateSettings(mapContext: (context: string) => string | null | undefined): Promise<void> {
+		const { settings } = this.plugin;
+
+		// Weights, availability rules, quotas and scheduling parameters configured for the target context win
+		settings.contextActionTypeWeights = this.moveContextKeys(settings.contextActionTypeWeights, mapContext, target => target);
+		settings.contextAvailability = this.moveContextKeys(settings.contextAvailability, mapContext, target => target);
+		settings.contextQuotas = this.moveContextKeys(settings.contextQuotas, mapContext, target => target);
+		settings.contextSchedulingParameters = this.moveContextKeys(settings.contextSchedulingParameters, mapContext, target => target);
+		// Usage and daily counts of merged contexts add up
+		settings.actionTypeUsageHistory = this.moveContextKeys(settings.actionTypeUsageHistory, mapContext, (target, source) => this.mergeUsageHistory(target, source));
+		settings.dailyProgress = {
+			...settings.dailyProgress,
+			counts: this.moveContextKeys(settings.dailyProgress.counts, mapContext, (target, source) => ({
+				notes: target.notes + source.notes,
+				memorize: target.memorize + source.memorize,
+				newCards: (target.newCards ?? 0) + (source.newCards ?? 0)
+			}))
+		};
+		settings.contextGroups = settings.contextGroups
+			.map(group => ({
+				...group,
+				contexts: this.moveContextList(group.contexts, mapContext)
+			}))
+			.filter(group => group.contexts.length > 0);
+		settings.reverseCardContexts = this.moveContextList(settings.reverseCardContexts, mapContext);
+
+		await this.plugin.saveSettings();
+	}
+
+	/**
+	 * Rename the contexts of a list, dropping deleted contexts and duplicates of merged ones
+	 */
+	private moveContextList(contexts: string[], mapContext: (context: string) => string | null | undefined): string[] {
+		return Array.from(new Set(contexts
+			.map(context => {
+				const toContext = mapContext(context);
+				return toContext === undefined ? context : toContext;
+			})
+			.filter((context): context is string => context !== null)));
+	}
+
+	/**
+	 * Re-key a per-context settings record, combining values when the target context already has one
+	 */
+	private moveContextKeys<T>(
+		record: Record<string, T>,
+		mapContext: (context: string) => string | null | undefined,
+		combine: (target: T, source: T) => T
+	): Record<string, T> {
+		const moved = { ...record };
+		for (const fromContext of Object.keys(record)) {
+			const toContext = mapContext(fromContext);
+			if (toContext === undefined) {
+				continue;
+			}
+			if (toContext !== null) {
+				moved[toContext] = toContext in moved ? combine(moved[toContext], record[fromContext]) : record[fromContext];
+			}
+			delete moved[fromContext];
+		}
+		return moved;
+	}
+
+	private mergeUsageHistory(target: ActionTypeUsageHistory, source: ActionTypeUsageHistory): ActionTypeUsageHistory {
+		const merged: ActionTypeUsageHistory = { ...target };
+		for (const [day, dayUsage] of Object.entries(source)) {
+			const mergedDay = { ...merged[day] };
+			for (const [actionType, count] of Object.entries(dayUsage)) {
+				mergedDay[actionType] = (mergedDay[actionType] ?? 0) + (count ?? 0);
+			}
+			merged[day] = mergedDay;
+		}
+		return merged;
+	}
+}
@@ -1,27 +1,39 @@
 import type { TFile } from 'obsidian';
-import type { Card, ReviewLog, FSRS, Grade, IPreview } from 'ts-fsrs';
+import type { Card, ReviewLog, FSRS, Grade, IPreview, State } from 'ts-fsrs';
 import { createEmptyCard, fsrs } from 'ts-fsrs';
 
 import type { NoteService } from '../noteService';
+import type { SchedulingParameters } from '../types';
+import { SchedulingParametersConfig } from '../config/schedulingParameters';
+
+const LEARNING_DATA_PROPERTY = 'see-you-again-learning-data';
+/** Independently scheduled cards within a note (e.g. cloze deletions), as context -> card id -> card data */
+const SUB_CARDS_PROPERTY = 'see-you-again-cards';
 
 export class FSRSService {
 	private noteService: NoteService;
-	private scheduler: FSRS = fsrs();
+	private scheduler: FSRS;
+	private parameterSchedulers = new Map<SchedulingParameters, FSRS>();
 
-	constructor(noteService: NoteService) {
+	/**
+	 * Reviews are scheduled with the given parameters, or the ts-fsrs defaults if none are given
+	 */
+	constructor(noteService: NoteService, parameters?: SchedulingParameters) {
 		this.noteService = noteService;
+		this.scheduler = parameters ? fsrs(SchedulingParametersConfig.toSchedulerParameters(parameters)) : fsrs();
 	}
 
 	/**
-	 * Load FSRS card data from note frontmatter, or create empty card if none exists
+	 * Load the FSRS card for a context (or one of its sub-cards) from note frontmatter, or create empty card if none exists
 	 */
-	async loadCard(note: TFile): Promise<Card> {
+	async loadCard(note: TFile, sanitizedContext: string, cardId: string | null = null): Promise<Card> {
 		try {
-			const frontmatter = this.noteService.getFrontmatter(note);
-			const cardData = frontmatter['see-you-again-learning-data'];
+			const cardData = cardId !== null
+				? this.getSubCards(note, sanitizedContext)[cardId]
+				: this.getContextCardData(note, sanitizedContext);
 
-			if (cardData && this.isValidCardData(cardData)) {
-				return this.deserializeCard(cardData as unknown as Record<string, unknown>);
+			if (this.isValidCardData(cardData)) {
+				return this.deserializeCard(cardData as Record<string, unknown>);
 			}
 		} catch (error) {
 			// If frontmatter access fails, fall through to empty card
@@ -32,11 +44,95 @@ export class FSRSService {
 	}
 
 	/**
-	 * Save FSRS card data to note frontmatter
+	 * Save the FSRS card for a context to note frontmatter
+	 * Legacy single-card data is migrated to per-context cards on the first save
+	 * Sub-cards listed in newCardIds that have no data yet are stored as new cards, so they come up for review too
+	 * Returns the ids of the sub-cards created that way, so undoing the review can remove them again
+	 */
+	async saveCard(note: TFile, sanitizedContext: string, card: Card, cardId: string | null = null, newCardIds: string[] = []): Promise<string[]> {
+		const cardData = this.serializeCard(card);
+		let createdCardIds: string[] = [];
+		const addNewCards = (cards: Record<string, unknown>): void => {
+			createdCardIds = newCardIds.filter(id => id !== cardId && !this.isValidCardData(cards[id]));
+			createdCardIds.forEach(id => {
+				cards[id] = this.serializeCard(createEmptyCard(card.last_review ?? new Date()));
+			});
+		};
+
+		if (cardId !== null) {
+			await this.updateSubCards(note, sanitizedContext, cards => {
+				addNewCards(cards);
+				cards[cardId] = cardData;
+			});
+			return createdCardIds;
+		}
+		if (newCardIds.length > 0) {
+			await this.updateSubCards(note, sanitizedContext, addNewCards);
+		}
+
+		const memorizeContexts = Object.entries(this.noteService.getFrontmatter(note))
+			.filter(([, action]) => action === 'memorize')
+			.map(([context]) => context);
+
+		await this.noteService.updateFrontmatterProperty(note, LEARNING_DATA_PROPERTY, (current: unknown) => {
+			const cards = this.toContextCardMap(current, memorizeContexts);
+			cards[sanitizedContext] = cardData;
+			return cards;
+		});
+		return createdCardIds;
+	}
+
+	/**
+	 * Restore the FSRS card of a context to a previous state (used to undo a review)
+	 * Passing null removes the card, making the note unseen again in that context
+	 * Sub-cards the review created (see saveCard) are removed as well
 	 */
-	async saveCard(note: TFile, card: Card): Promise<void> {
-		const cardData: unknown = this.serializeCard(card);
-		await this.noteService.setFrontmatterProperty(note, 'see-you-again-learning-data', cardData);
+	async restoreCard(note: TFile, sanitizedContext: string, previousCard: Card | null, cardId: string | null = null, createdCardIds: string[] = []): Promise<void> {
+		if (createdCardIds.length > 0) {
+			await this.updateSubCards(note, sanitizedContext, cards => {
+				createdCardIds.forEach(id => {
+					delete cards[id];
+				});
+			});
+		}
+
+		if (previousCard) {
+			await this.saveCard(note, sanitizedContext, previousCard, cardId);
+			return;
+		}
+		if (cardId !== null) {
+			await this.updateSubCards(note, sanitizedContext, cards => {
+				delete cards[cardId];
+			});
+			return;
+		}
+
+		const memorizeContexts = Object.entries(this.noteService.getFrontmatter(note))
+			.filter(([, action]) => action === 'memorize')
+			.map(([context]) => context);
+
+		await this.noteService.updateFrontmatterProperty(note, LEARNING_DATA_PROPERTY, (current: unknown) => {
+			const cards = this.toContextCardMap(current, memorizeContexts);
+			delete cards[sanitizedContext];
+			return cards;
+		});
+	}
+
+	/**
+	 * Move the cards of renamed contexts to their new context, dropping cards of deleted (null) contexts
+	 * A card already stored for the target context wins; legacy single-card data is shared by all contexts and left alone
+	 */
+	async moveCards(note: TFile, replacements: Record<string, string | null>): Promise<void> {
+		if (this.isContextMap(this.noteService.getSubCardData(note))) {
+			await this.noteService.moveContextEntries(note, SUB_CARDS_PROPERTY, replacements);
+		}
+
+		const learningData = this.noteService.getLearningData(note);
+		if (this.isValidCardData(learningData) || learningData === null || typeof learningData !== 'object') {
+			return;
+		}
+
+		await this.noteService.moveContextEntries(note, LEARNING_DATA_PROPERTY, replacements);
 	}
 
 	/**
@@ -56,29 +152,44 @@ export class FSRSService {
 	}
 
 	/**
-	 * Check if a note has FSRS data (is not unseen)
+	 * Check if a note has FSRS data for a context (is not unseen), or for one sub-card if a card id is given
 	 */
-	hasCardData(note: TFile): boolean {
+	hasCardData(note: TFile, sanitizedContext: string, cardId: string | null = null): boolean {
 		try {
-			const frontmatter = this.noteService.getFrontmatter(note);
-			const cardData = frontmatter['see-you-again-learning-data'];
-			return cardData && this.isValidCardData(cardData);
+			if (cardId !== null) {
+				return this.isValidCardData(this.getSubCards(note, sanitizedContext)[cardId]);
+			}
+			return this.getCardIds(note, sanitizedContext).length > 0 ||
+				this.isValidCardData(this.getContextCardData(note, sanitizedContext));
 		} catch (error) {
 			return false;
 		}
 	}
 
 	/**
-	 * Get due date from card data without fully deserializing
+	 * Get the ids of the sub-cards of a context that have FSRS data
 	 */
-	getCardDueDate(note: TFile): Date | null {
+	getCardIds(note: TFile, sanitizedContext: string): string[] {
+		const cards = this.getSubCards(note, sanitizedContext);
+		return Object.keys(cards).filter(cardId => this.isValidCardData(cards[cardId]));
+	}
+
+	/**
+	 * Get due date from the card data of a context (or one of its sub-cards) without fully deserializing
+	 * Without a card id, a note with sub-cards is due as soon as its earliest card is
+	 */
+	getCardDueDate(note: TFile, sanitizedContext: string, cardId: string | null = null): Date | null {
 		try {
-			const frontmatter = this.noteService.getFrontmatter(note);
-			const cardData = frontmatter['see-you-again-learning-data'];
+			if (cardId !== null) {
+				return this.getStoredDueDate(this.getSubCards(note, sanitizedContext)[cardId]);
+			}
 
-			if (cardData && typeof cardData === 'object' && 'due' in cardData) {
-				const typedCardData = cardData as { due: string };
-				return new Date(typedCardData.due);
+			const subCards = this.getSubCards(note, sanitizedContext);
+			const dueDates = [this.getContextCardData(note, sanitizedContext), ...Object.values(subCards)]
+				.map(cardData => this.getStoredDueDate(cardData))
+				.filter((dueDate): dueDate is Date => dueDate !== null);
+			if (dueDates.length > 0) {
+				return dueDates.reduce((earliest, dueDate) => dueDate < earliest ? dueDate : earliest);
 			}
 		} catch (error) {
 			// Failed to get card due date
@@ -87,6 +198,168 @@ export class FSRSService {
 		return null;
 	}
 
+	/**
+	 * Get the due date of the context's own card only, ignoring its sub-cards
+	 */
+	getMainCardDueDate(note: TFile, sanitizedContext: string): Date | null {
+		try {
+			return this.getStoredDueDate(this.getContextCardData(note, sanitizedContext));
+		} catch (error) {
+			return null;
+		}
+	}
+
+	/**
+	 * Pick the card of a note to ask: the most overdue one, otherwise one never asked before, otherwise the one due soonest
+	 * A null card id stands for the context's own card
+	 */
+	pickCard(note: TFile, sanitizedContext: string, cardIds: (string | null)[], now: Date = new Date()): string | null {
+		const dueDates = cardIds.map(id => ({
+			id,
+			due: id === null ? this.getMainCardDueDate(note, sanitizedContext) : this.getCardDueDate(note, sanitizedContext, id)
+		}));
+		const scheduled = dueDates
+			.filter((entry): entry is { id: string | null; due: Date } => entry.due !== null)
+			.sort((a, b) => a.due.getTime() - b.due.getTime());
+
+		if (scheduled.length > 0 && scheduled[0].due <= now) {
+			return scheduled[0].id;
+		}
+
+		// The context's own card has a null id, so look for an unseen card by index rather than by id
+		const unseenIndex = dueDates.findIndex(entry => entry.due === null);
+		if (unseenIndex !== -1) {
+			return dueDates[unseenIndex].id;
+		}
+		return scheduled.length > 0 ? scheduled[0].id : null;
+	}
+
+	/**
+	 * Get the FSRS state (new, learning, review, relearning) of the card of a context, or null if it was never reviewed
+	 */
+	getCardState(note: TFile, sanitizedContext: string, cardId: string | null = null): State | null {
+		try {
+			const cardData = cardId !== null
+				? this.getSubCards(note, sanitizedContext)[cardId]
+				: this.getContextCardData(note, sanitizedContext);
+			if (this.isValidCardData(cardData)) {
+				return (cardData as { state: State }).state;
+			}
+		} catch (error) {
+			// Failed to get card state
+		}
+
+		return null;
+	}
+
+	/**
+	 * Get the predicted probability (0-1) of recalling a note in a context at the given moment, or null if it was never reviewed
+	 * A note with sub-cards is as likely to be recalled as its weakest card
+	 * Pass the context's scheduling parameters to use the same model as grading, otherwise the service's own are used
+	 */
+	getRetrievability(note: TFile, sanitizedContext: string, now: Date = new Date(), parameters?: SchedulingParameters): number | null {
+		try {
+			const scheduler = parameters ? this.getParameterScheduler(parameters) : this.scheduler;
+			const subCards = this.getSubCards(note, sanitizedContext);
+			const retrievabilities = [this.getContextCardData(note, sanitizedContext), ...Object.values(subCards)]
+				.filter(cardData => this.isValidCardData(cardData))
+				.map(cardData => scheduler.get_retrievability(this.deserializeCard(cardData as Record<string, unknown>), now, false));
+			if (retrievabilities.length > 0) {
+				return Math.min(...retrievabilities);
+			}
+		} catch (error) {
+			// Failed to compute retrievability
+		}
+
+		return null;
+	}
+
+	private getParameterScheduler(parameters: SchedulingParameters): FSRS {
+		let scheduler = this.parameterSchedulers.get(parameters);
+		if (!scheduler) {
+			scheduler = fsrs(SchedulingParametersConfig.toSchedulerParameters(parameters));
+			this.parameterSchedulers.set(parameters, scheduler);
+		}
+		return scheduler;
+	}
+
+	/**
+	 * Get the raw card data for a context
+	 * Legacy notes store a single card that is shared by all contexts
+	 */
+	private getContextCardData(note: TFile, sanitizedContext: string): unknown {
+		const learningData = this.noteService.getLearningData(note);
+
+		if (this.isValidCardData(learningData)) {
+			return learningData;
+		}
+		if (learningData !== null && typeof learningData === 'object' && !Array.isArray(learningData)) {
+			return (learningData as Record<string, unknown>)[sanitizedContext];
+		}
+		return undefined;
+	}
+
+	private getStoredDueDate(cardData: unknown): Date | null {
+		if (cardData !== null && cardData !== undefined && typeof cardData === 'object' && 'due' in cardData) {
+			const typedCardData = cardData as { due: string };
+			return new Date(typedCardData.due);
+		}
+		return null;
+	}
+
+	/**
+	 * Get the raw sub-card data of a context, as card id -> card data
+	 */
+	private getSubCards(note: TFile, sanitizedContext: string): Record<string, unknown> {
+		const subCardData = this.noteService.getSubCardData(note);
+		if (!this.isContextMap(subCardData)) {
+			return {};
+		}
+		const cards = (subCardData as Record<string, unknown>)[sanitizedContext];
+		return this.isContextMap(cards) ? cards as Record<string, unknown> : {};
+	}
+
+	/**
+	 * Update the sub-cards of a context in place, dropping the context once it has no sub-cards left
+	 */
+	private async updateSubCards(note: TFile, sanitizedContext: string, update: (cards: Record<string, unknown>) => void): Promise<void> {
+		await this.noteService.updateFrontmatterProperty(note, SUB_CARDS_PROPERTY, (current: unknown) => {
+			const contexts: Record<string, unknown> = this.isContextMap(current) ? { ...current as Record<string, unknown> } : {};
+			const existing = contexts[sanitizedContext];
+			const cards: Record<string, unknown> = this.isContextMap(existing) ? { ...existing as Record<string, unknown> } : {};
+			update(cards);
+
+			if (Object.keys(cards).length > 0) {
+				contexts[sanitizedContext] = cards;
+			} else {
+				delete contexts[sanitizedContext];
+			}
+			return Object.keys(contexts).length > 0 ? contexts : undefined;
+		});
+	}
+
+	private isContextMap(data: unknown): boolean {
+		return data !== null && typeof data === 'object' && !Array.isArray(data);
+	}
+
+	/**
+	 * Normalize stored learning data to a map of context -> card data
+	 */
+	private toContextCardMap(learningData: unknown, legacyContexts: string[]): Record<string, unknown> {
+		if (this.isValidCardData(learningData)) {
+			// Legacy single card: keep its schedule for every memorize context of the note
+			const cards: Record<string, unknown> = {};
+			legacyContexts.forEach(context => {
+				cards[context] = learningData;
+			});
+			return cards;
+		}
+		if (learningData !== null && typeof learningData === 'object' && !Array.isArray(learningData)) {
+			return { ...learningData as Record<string, unknown> };
+		}
+		return {};
+	}
+
 	private serializeCard(card: Card): Record<string, unknown> {
 		return {
 			...card,
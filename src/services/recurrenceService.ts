@@ -0,0 +1,139 @@
+import type { TFile } from 'obsidian';
+
+import type { NoteService } from '../noteService';
+import { DateUtils } from '../utils/dateUtils';
+
+const RECURRENCE_PROPERTY = 'see-you-again-recurrence';
+
+/** Longest interval an expanding recurrence grows to */
+const MAX_EXPANDING_INTERVAL_DAYS = 90;
+
+/**
+ * How often a note may come up again in a context (non-memorize actions only)
+ * Fixed rules keep their interval; expanding rules double it every time the note is acted on or moved past with Next
+ */
+export interface Recurrence {
+	mode: 'fixed' | 'expanding';
+	days: number;
+}
+
+export const RECURRENCE_OPTIONS: { value: string; label: string }[] = [
+	{ value: '', label: 'Any day' },
+	{ value: 'fixed:3', label: 'Every 3 days' },
+	{ value: 'fixed:7', label: 'Weekly' },
+	{ value: 'fixed:14', label: 'Every 2 weeks' },
+	{ value: 'fixed:30', label: 'Monthly' },
+	{ value: 'expanding:1', label: 'Expanding interval' }
+];
+
+/**
+ * Per-note, per-context cooldowns stored in note frontmatter
+ */
+export class RecurrenceService {
+	constructor(private noteService: NoteService) {}
+
+	/**
+	 * Get the recurrence rule of a note in a context, or null if it may come up any day
+	 */
+	getRecurrence(note: TFile, sanitizedContext: string): Recurrence | null {
+		const data = this.noteService.getRecurrenceData(note);
+		if (data === null || typeof data !== 'object' || Array.isArray(data)) {
+			return null;
+		}
+
+		const rule: unknown = (data as Record<string, unknown>)[sanitizedContext];
+		return RecurrenceService.isValidRecurrence(rule) ? rule : null;
+	}
+
+	/**
+	 * Set or (with null) clear the recurrence rule of a note in a context
+	 */
+	async setRecurrence(note: TFile, sanitizedContext: string, recurrence: Recurrence | null): Promise<void> {
+		await this.noteService.updateFrontmatterProperty(note, RECURRENCE_PROPERTY, (current: unknown) => {
+			const rules: Record<string, unknown> = (current !== null && typeof current === 'object' && !Array.isArray(current))
+				? { ...current as Record<string, unknown> }
+				: {};
+			if (recurrence) {
+				rules[sanitizedContext] = { ...recurrence };
+			} else {
+				delete rules[sanitizedContext];
+			}
+			// Don't leave an empty property behind
+			return Object.keys(rules).length > 0 ? rules : undefined;
+		});
+	}
+
+	/**
+	 * Check if a note is still cooling down in a context since it was last seen
+	 */
+	isInCooldown(note: TFile, sanitizedContext: string, lastSeen: string | undefined): boolean {
+		const recurrence = this.getRecurrence(note, sanitizedContext);
+		const lastSeenDay = lastSeen === undefined ? null : DateUtils.toHumanDay(lastSeen);
+		if (!recurrence || lastSeenDay === null) {
+			return false;
+		}
+		return DateUtils.daysBetween(lastSeenDay, DateUtils.getCurrentHumanDay()) < recurrence.days;
+	}
+
+	/**
+	 * Called when a note was acted on or moved past with Next in a context: grows an expanding interval
+	 */
+	async recordShown(note: TFile, sanitizedContext: string): Promise<void> {
+		const recurrence = this.getRecurrence(note, sanitizedContext);
+		if (!recurrence || recurrence.mode !== 'expanding') {
+			return;
+		}
+
+		const days = Math.min(recurrence.days * 2, MAX_EXPANDING_INTERVAL_DAYS);
+		if (days !== recurrence.days) {
+			await this.setRecurrence(note, sanitizedContext, { mode: 'expanding', days });
+		}
+	}
+
+	/**
+	 * Move the rules of renamed contexts to their new context, dropping rules of deleted (null) contexts
+	 */
+	async moveRules(note: TFile, replacements: Record<string, string | null>): Promise<void> {
+		await this.noteService.moveContextEntries(note, RECURRENCE_PROPERTY, replacements);
+	}
+
+	/**
+	 * Encode a rule as a RECURRENCE_OPTIONS value
+	 */
+	static toOptionValue(recurrence: Recurrence | null): string {
+		return recurrence ? `${recurrence.mode}:${recurrence.days}` : '';
+	}
+
+	/**
+	 * Decode a RECURRENCE_OPTIONS value
+	 */
+	static fromOptionValue(value: string): Recurrence | null {
+		const [mode, days] = value.split(':');
+		const parsed = { mode, days: Number(days) };
+		return this.isValidRecurrence(parsed) ? parsed : null;
+	}
+
+	/**
+	 * Human-readable label for a rule, e.g. "Every 5 days"
+	 */
+	static describe(recurrence: Recurrence | null): string {
+		if (!recurrence) {
+			return 'Any day';
+		}
+		if (recurrence.mode === 'expanding') {
+			return `Expanding interval (now ${recurrence.days} ${recurrence.days === 1 ? 'day' : 'days'})`;
+		}
+		return recurrence.days === 1 ? 'Every day' : `Every ${recurrence.days} days`;
+	}
+
+	private static isValidRecurrence(data: unknown): data is Recurrence {
+		if (data === null || typeof data !== 'object') {
+			return false;
+		}
+		const obj = data as Record<string, unknown>;
+		return (obj.mode === 'fixed' || obj.mode === 'expanding') &&
+			typeof obj.days === 'number' &&
+			Number.isInteger(obj.days) &&
+			obj.days >= 1;
+	}
+}
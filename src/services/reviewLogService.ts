@@ -0,0 +1,158 @@
+import type { App } from 'obsidian';
+import type { Card, Grade, ReviewLog, State } from 'ts-fsrs';
+
+/**
+ * A single memorize review as persisted in the review log file
+ */
+export interface ReviewLogEntry {
+	id: string;
+	notePath: string;
+	context: string;
+	/** Sub-card (e.g. cloze deletion) that was reviewed, if the note has several */
+	cardId?: string;
+	grade: Grade;
+	reviewedAt: string;
+	elapsedDays: number;
+	scheduledDays: number;
+	stateBefore: State;
+	stateAfter: State;
+	stability: number;
+	difficulty: number;
+	due: string;
+}
+
+/**
+ * Append-only history of memorize reviews, stored as JSON lines in a plugin-owned file
+ */
+export class ReviewLogService {
+	constructor(private app: App, private logPath: string) {}
+
+	/**
+	 * Build a log entry from the ts-fsrs review log and the resulting card
+	 */
+	static createEntry(notePath: string, sanitizedContext: string, log: ReviewLog, updatedCard: Card, cardId: string | null = null): ReviewLogEntry {
+		return {
+			id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+			notePath,
+			context: sanitizedContext,
+			...(cardId !== null ? { cardId } : {}),
+			grade: log.rating as Grade,
+			reviewedAt: log.review.toISOString(),
+			elapsedDays: log.elapsed_days,
+			scheduledDays: updatedCard.scheduled_days,
+			stateBefore: log.state,
+			stateAfter: updatedCard.state,
+			stability: updatedCard.stability,
+			difficulty: updatedCard.difficulty,
+			due: updatedCard.due.toISOString()
+		};
+	}
+
+	/**
+	 * Append a review to the log file
+	 */
+	async append(entry: ReviewLogEntry): Promise<void> {
+		const line = JSON.stringify(entry) + '\n';
+		const adapter = this.app.vault.adapter;
+
+		if (await adapter.exists(this.logPath)) {
+			await adapter.append(this.logPath, line);
+		} else {
+			await adapter.write(this.logPath, line);
+		}
+	}
+
+	/**
+	 * Read all reviews from the log file, oldest first
+	 */
+	async getEntries(): Promise<ReviewLogEntry[]> {
+		const adapter = this.app.vault.adapter;
+		if (!(await adapter.exists(this.logPath))) {
+			return [];
+		}
+
+		const content = await adapter.read(this.logPath);
+		const entries: ReviewLogEntry[] = [];
+
+		for (const line of content.split('\n')) {
+			if (!line.trim()) {
+				continue;
+			}
+			try {
+				const parsed: unknown = JSON.parse(line);
+				if (this.isValidEntry(parsed)) {
+					entries.push(parsed);
+				}
+			} catch (error) {
+				// Skip corrupted lines
+			}
+		}
+
+		return entries;
+	}
+
+	/**
+	 * Remove a single review from the log (used when a review is undone)
+	 */
+	async removeEntry(id: string): Promise<void> {
+		const entries = await this.getEntries();
+		const remaining = entries.filter(entry => entry.id !== id);
+
+		if (remaining.length !== entries.length) {
+			await this.writeEntries(remaining);
+		}
+	}
+
+	/**
+	 * Keep the log pointing at the right note after a rename
+	 */
+	async renameNote(oldPath: string, newPath: string): Promise<void> {
+		const entries = await this.getEntries();
+		if (!entries.some(entry => entry.notePath === oldPath)) {
+			return;
+		}
+
+		await this.writeEntries(entries.map(entry =>
+			entry.notePath === oldPath ? { ...entry, notePath: newPath } : entry
+		));
+	}
+
+	/**
+	 * Keep the log pointing at the right context after contexts are renamed or merged
+	 * Reviews of deleted contexts (mapped to null) stay in the history unchanged
+	 */
+	async renameContexts(mapContext: (context: string) => string | null | undefined): Promise<void> {
+		const entries = await this.getEntries();
+		let changed = false;
+
+		const updated = entries.map(entry => {
+			const context = mapContext(entry.context);
+			if (context === undefined || context === null) {
+				return entry;
+			}
+			changed = true;
+			return { ...entry, context };
+		});
+
+		if (changed) {
+			await this.writeEntries(updated);
+		}
+	}
+
+	private async writeEntries(entries: ReviewLogEntry[]): Promise<void> {
+		const content = entries.map(entry => JSON.stringify(entry) + '\n').join('');
+		await this.app.vault.adapter.write(this.logPath, content);
+	}
+
+	private isValidEntry(data: unknown): data is ReviewLogEntry {
+		if (data === null || typeof data !== 'object') {
+			return false;
+		}
+		const obj = data as Record<string, unknown>;
+		return typeof obj.id === 'string' &&
+			typeof obj.notePath === 'string' &&
+			typeof obj.context === 'string' &&
+			typeof obj.grade === 'number' &&
+			typeof obj.reviewedAt === 'string';
+	}
+}
@@ -0,0 +1,206 @@
+import { Rating, State } from 'ts-fsrs';
+
+import type { SeeYouAgainPlugin } from '../types';
+import { NoteService } from '../noteService';
+import { FSRSService } from './fsrsService';
+import type { ReviewLogEntry } from './reviewLogService';
+import { ActionTypeRegistry } from '../config/actionTypeRegistry';
+import { ContextUtils } from '../utils/contextUtils';
+import { DateUtils } from '../utils/dateUtils';
+
+/** Number of days covered by the due forecast */
+export const FORECAST_DAYS = 30;
+
+export type CardStateName = 'new' | 'learning' | 'review' | 'relearning';
+
+/**
+ * Number of notes of a single context, in total and per action type
+ */
+export interface ContextStatistics {
+	context: string;
+	notes: number;
+	actionTypes: Record<string, number>;
+}
+
+/**
+ * Share of reviews of learned cards (in the review state) that were remembered, i.e. not graded "Again"
+ */
+export interface RetentionStatistics {
+	reviews: number;
+	recalled: number;
+}
+
+export interface Statistics {
+	totalNotes: number;
+	notesWithContexts: number;
+	contexts: ContextStatistics[];
+	actionTypes: Record<string, number>;
+	/** Memorize cards (one per note and context, plus sub-cards such as clozes) by FSRS state */
+	cardStates: Record<CardStateName, number>;
+	/** Memorize cards due on each of the next days, starting today; overdue cards count for today */
+	dueForecast: { day: string; count: number }[];
+	retention: RetentionStatistics;
+	retentionLast30Days: RetentionStatistics;
+	/** Reviews per human day (yyyy-mm-dd) */
+	reviewsPerDay: Record<string, number>;
+	totalReviews: number;
+	/** Consecutive days with at least one review, up to today (or yesterday, if today has no reviews yet) */
+	currentStreak: number;
+	longestStreak: number;
+}
+
+/**
+ * Computes statistics from the context index (see-you-again and learning data frontmatter) and the review log
+ */
+export class StatisticsService {
+	private noteService: NoteService;
+	private fsrsService: FSRSService;
+
+	constructor(private plugin: SeeYouAgainPlugin) {
+		this.noteService = new NoteService(plugin.app, plugin.contextIndex);
+		this.fsrsService = new FSRSService(this.noteService);
+	}
+
+	async compute(now: Date = new Date()): Promise<Statistics> {
+		const today = DateUtils.getCurrentHumanDay(now);
+		const notes = this.plugin.contextIndex.getAllNotes();
+
+		const contexts = new Map<string, ContextStatistics>();
+		const actionTypes = this.createEmptyActionTypeCounts();
+		const cardStates: Record<CardStateName, number> = { new: 0, learning: 0, review: 0, relearning: 0 };
+		const forecast: number[] = new Array<number>(FORECAST_DAYS).fill(0);
+		let notesWithContexts = 0;
+
+		for (const note of notes) {
+			const entries = Object.entries(note.contexts).filter(([context, action]) => context.trim() !== '' && Boolean(action));
+			if (entries.length > 0) {
+				notesWithContexts++;
+			}
+
+			for (const [context, actionType] of entries) {
+				let contextStatistics = contexts.get(context);
+				if (!contextStatistics) {
+					contextStatistics = { context, notes: 0, actionTypes: this.createEmptyActionTypeCounts() };
+					contexts.set(context, contextStatistics);
+				}
+				contextStatistics.notes++;
+				contextStatistics.actionTypes[actionType] = (contextStatistics.actionTypes[actionType] ?? 0) + 1;
+				actionTypes[actionType] = (actionTypes[actionType] ?? 0) + 1;
+
+				if (actionType !== 'memorize') {
+					continue;
+				}
+
+				// Notes with sub-cards (e.g. cloze deletions or reverse cards) count each sub-card as its own card
+				const subCardIds = this.fsrsService.getCardIds(note.file, context);
+				const hasNoteCard = subCardIds.length === 0 || this.fsrsService.getCardState(note.file, context) !== null;
+				const cardIds: (string | null)[] = hasNoteCard ? [null, ...subCardIds] : subCardIds;
+
+				for (const cardId of cardIds) {
+					const state = this.fsrsService.getCardState(note.file, context, cardId);
+					cardStates[this.getStateName(state)]++;
+
+					let dueDate: Date | null = null;
+					if (state !== null) {
+						// Without a card id getCardDueDate returns the earliest due date of all cards of the note
+						dueDate = cardId === null
+							? this.fsrsService.getMainCardDueDate(note.file, context)
+							: this.fsrsService.getCardDueDate(note.file, context, cardId);
+					}
+					if (dueDate && !isNaN(dueDate.getTime())) {
+						const daysUntilDue = Math.max(0, DateUtils.daysBetween(today, DateUtils.getCurrentHumanDay(dueDate)));
+						if (daysUntilDue < FORECAST_DAYS) {
+							forecast[daysUntilDue]++;
+						}
+					}
+				}
+			}
+		}
+
+		const reviews = await this.plugin.reviewLog.getEntries();
+		const reviewsPerDay = this.countReviewsPerDay(reviews);
+		const { currentStreak, longestStreak } = this.computeStreaks(reviewsPerDay, today);
+		const cutoff = DateUtils.addDays(today, -29);
+
+		return {
+			totalNotes: this.plugin.app.vault.getMarkdownFiles().length,
+			notesWithContexts,
+			contexts: ContextUtils.sortAsTree(Array.from(contexts.keys()))
+				.map(context => contexts.get(context))
+				.filter((context): context is ContextStatistics => context !== undefined),
+			actionTypes,
+			cardStates,
+			dueForecast: forecast.map((count, index) => ({ day: DateUtils.addDays(today, index), count })),
+			retention: this.computeRetention(reviews),
+			retentionLast30Days: this.computeRetention(reviews.filter(entry => (DateUtils.toHumanDay(entry.reviewedAt) ?? '') >= cutoff)),
+			reviewsPerDay,
+			totalReviews: reviews.length,
+			currentStreak,
+			longestStreak
+		};
+	}
+
+	private getStateName(state: State | null): CardStateName {
+		switch (state) {
+			case State.Learning:
+				return 'learning';
+			case State.Review:
+				return 'review';
+			case State.Relearning:
+				return 'relearning';
+			default:
+				return 'new';
+		}
+	}
+
+	/**
+	 * True retention only looks at cards that were already learned, so learning steps don't inflate it
+	 */
+	private computeRetention(reviews: ReviewLogEntry[]): RetentionStatistics {
+		const matureReviews = reviews.filter(entry => entry.stateBefore === State.Review);
+		return {
+			reviews: matureReviews.length,
+			recalled: matureReviews.filter(entry => entry.grade !== Rating.Again).length
+		};
+	}
+
+	private countReviewsPerDay(reviews: ReviewLogEntry[]): Record<string, number> {
+		const reviewsPerDay: Record<string, number> = {};
+		for (const entry of reviews) {
+			const day = DateUtils.toHumanDay(entry.reviewedAt);
+			if (day !== null) {
+				reviewsPerDay[day] = (reviewsPerDay[day] ?? 0) + 1;
+			}
+		}
+		return reviewsPerDay;
+	}
+
+	private computeStreaks(reviewsPerDay: Record<string, number>, today: string): { currentStreak: number; longestStreak: number } {
+		// A streak isn't broken until the day is over
+		let day = today in reviewsPerDay ? today : DateUtils.addDays(today, -1);
+		let currentStreak = 0;
+		while (day in reviewsPerDay) {
+			currentStreak++;
+			day = DateUtils.addDays(day, -1);
+		}
+
+		let longestStreak = 0;
+		let streak = 0;
+		let previousDay: string | null = null;
+		for (const reviewDay of Object.keys(reviewsPerDay).sort()) {
+			streak = previousDay !== null && DateUtils.addDays(previousDay, 1) === reviewDay ? streak + 1 : 1;
+			longestStreak = Math.max(longestStreak, streak);
+			previousDay = reviewDay;
+		}
+
+		return { currentStreak, longestStreak };
+	}
+
+	private createEmptyActionTypeCounts(): Record<string, number> {
+		const counts: Record<string, number> = {};
+		ActionTypeRegistry.getActionOptions(this.plugin.settings).forEach(option => {
+			counts[option.value] = 0;
+		});
+		return counts;
+	}
+}
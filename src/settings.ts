@@ -1,12 +1,25 @@
-import type { App, Plugin} from 'obsidian';
+import type { App } from 'obsidian';
 import { PluginSettingTab, Setting, Notice } from 'obsidian';
 
-import type { SeeYouAgainSettings } from './types';
+import type { ActionOption, ActionTypeId, ContextAvailability, ContextQuota, CustomActionTypeDefinition, QueueLocation, QueueShortcutAction, ReviewOrder, SchedulingParameters, SeeYouAgainPlugin, SubCardSource } from './types';
+import { ACTION_OPTIONS, CUSTOM_ACTION_BUTTON_OPTIONS } from './types';
+import type { ActionTypeWeights } from './config/actionTypeWeights';
+import { ActionTypeWeightsConfig } from './config/actionTypeWeights';
+import { ActionTypeRegistry } from './config/actionTypeRegistry';
+import { ContextAvailabilityConfig, WEEKDAY_LABELS } from './config/contextAvailability';
+import { SchedulingParametersConfig } from './config/schedulingParameters';
+import { DEFAULT_QUEUE_SHORTCUTS, QUEUE_SHORTCUT_LABELS, QueueShortcutsConfig } from './config/queueShortcuts';
+import { ContextUtils } from './utils/contextUtils';
+import { DateUtils } from './utils/dateUtils';
 
 export class SeeYouAgainSettingTab extends PluginSettingTab {
-	plugin: Plugin & { settings: SeeYouAgainSettings; saveSettings(): Promise<void> };
+	plugin: SeeYouAgainPlugin;
+	private selectedWeightsContext = '';
+	private selectedAvailabilityContext = '';
+	private selectedQuotaContext = '';
+	private selectedSchedulingContext = '';
 
-	constructor(app: App, plugin: Plugin & { settings: SeeYouAgainSettings; saveSettings(): Promise<void> }) {
+	constructor(app: App, plugin: SeeYouAgainPlugin) {
 		super(app, plugin);
 		this.plugin = plugin;
 	}
@@ -17,6 +30,41 @@ export class SeeYouAgainSettingTab extends PluginSettingTab {
 
 		containerEl.createEl('h2', { text: 'See You Again Settings' });
 
+		new Setting(containerEl)
+			.setName('Queue location')
+			.setDesc('Where context queues open. A tab or the sidebar keeps the current note open next to the queue so you can edit it.')
+			.addDropdown(dropdown => dropdown
+				.addOption('modal', 'Modal')
+				.addOption('tab', 'Tab')
+				.addOption('sidebar', 'Right sidebar')
+				.setValue(this.plugin.settings.queueLocation)
+				.onChange(async (value) => {
+					this.plugin.settings.queueLocation = value as QueueLocation;
+					await this.plugin.saveSettings();
+				}));
+
+		// When a new day starts
+		this.addDaySection(containerEl);
+
+		// Keys of the queue buttons
+		this.addQueueShortcutsSection(containerEl);
+
+		// Action type weights
+		this.addActionTypeWeightsSection(containerEl);
+		this.addActionTypeUsageSection(containerEl);
+		this.addContextWeightsSection(containerEl);
+
+		// Context time windows
+		this.addContextAvailabilitySection(containerEl);
+
+		// Daily quotas and session goal
+		this.addQuotaSection(containerEl);
+
+		// Memorize new cards and review order
+		this.addMemorizationSection(containerEl);
+
+		// Custom action types
+		this.addCustomActionTypesSection(containerEl);
 
 		// Add a button to reset/clear all processed notes
 		new Setting(containerEl)
@@ -35,6 +83,790 @@ export class SeeYouAgainSettingTab extends PluginSettingTab {
 		this.addStatsSection(containerEl);
 	}
 
+	private addDaySection(containerEl: HTMLElement): void {
+		new Setting(containerEl)
+			.setName('New day starts at')
+			.setDesc('Notes seen, reviewed or answered before this hour count for the previous day. Useful if you stay up late or work night shifts.')
+			.addDropdown(dropdown => {
+				for (let hour = 0; hour < 24; hour++) {
+					dropdown.addOption(String(hour), `${String(hour).padStart(2, '0')}:00`);
+				}
+				dropdown
+					.setValue(String(this.plugin.settings.dayRolloverHour))
+					.onChange(async (value) => {
+						this.plugin.settings.dayRolloverHour = Number(value);
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('Time zone')
+			.setDesc('Count days in a fixed time zone (e.g. "Europe/Berlin") so travelling doesn\'t shift them. Leave empty to use the device\'s time zone.')
+			.addText(text => text
+				.setPlaceholder(Intl.DateTimeFormat().resolvedOptions().timeZone)
+				.setValue(this.plugin.settings.timeZone)
+				.onChange(async (value) => {
+					// Only known time zones are saved; clearing the field switches back to local time
+					const trimmed = value.trim();
+					if (trimmed !== '' && !DateUtils.isValidTimeZone(trimmed)) {
+						return;
+					}
+					this.plugin.settings.timeZone = trimmed;
+					await this.plugin.saveSettings();
+				}));
+	}
+
+	private addQueueShortcutsSection(containerEl: HTMLElement): void {
+		containerEl.createEl('h3', { text: 'Queue Shortcuts' });
+		containerEl.createEl('p', {
+			text: 'Single keys that trigger the queue buttons. Type a key (or "Space"); leave a field empty to use the default.',
+			cls: 'setting-item-description'
+		});
+
+		// Keys are validated as a whole set, so two shortcuts can swap keys one field at a time
+		const draft = QueueShortcutsConfig.resolve(this.plugin.settings);
+		const conflictEl = containerEl.createEl('p', { cls: 'setting-item-description mod-warning' });
+
+		(Object.keys(DEFAULT_QUEUE_SHORTCUTS) as QueueShortcutAction[]).forEach(action => {
+			new Setting(containerEl)
+				.setName(QUEUE_SHORTCUT_LABELS[action])
+				.addText(text => text
+					.setPlaceholder(QueueShortcutsConfig.getKeyLabel(DEFAULT_QUEUE_SHORTCUTS[action]))
+					.setValue(action in this.plugin.settings.queueShortcuts
+						? QueueShortcutsConfig.getKeyLabel(draft[action])
+						: '')
+					.onChange(async (value) => {
+						const trimmed = value === ' ' ? value : value.trim();
+						const key = trimmed === '' ? DEFAULT_QUEUE_SHORTCUTS[action] : QueueShortcutsConfig.normalizeKey(trimmed);
+						// Only single keys are saved
+						if (key.length !== 1) {
+							return;
+						}
+						draft[action] = key;
+
+						// Keep the last conflict-free set saved until every key is unique again
+						const conflict = QueueShortcutsConfig.findConflict(draft);
+						if (conflict !== null) {
+							conflictEl.setText(`"${QUEUE_SHORTCUT_LABELS[conflict[0]]}" and "${QUEUE_SHORTCUT_LABELS[conflict[1]]}" both use "${QueueShortcutsConfig.getKeyLabel(draft[conflict[0]])}". Changes are saved once every key is unique.`);
+							return;
+						}
+						conflictEl.setText('');
+
+						const updated: Partial<Record<QueueShortcutAction, string>> = {};
+						(Object.keys(draft) as QueueShortcutAction[]).forEach(candidate => {
+							if (draft[candidate] !== DEFAULT_QUEUE_SHORTCUTS[candidate]) {
+								updated[candidate] = draft[candidate];
+							}
+						});
+						this.plugin.settings.queueShortcuts = updated;
+						await this.plugin.saveSettings();
+					}));
+		});
+	}
+
+	private addActionTypeWeightsSection(containerEl: HTMLElement): void {
+		containerEl.createEl('h3', { text: 'Action Type Weights' });
+		containerEl.createEl('p', {
+			text: 'Higher weights make an action type come up more often in a queue.',
+			cls: 'setting-item-description'
+		});
+
+		this.renderWeightSliders(
+			containerEl,
+			ACTION_OPTIONS,
+			ActionTypeWeightsConfig.resolveWeights(this.plugin.settings),
+			async (weights) => {
+				const builtInWeights: Record<string, number> = {};
+				ACTION_OPTIONS.forEach(option => {
+					builtInWeights[option.value] = weights[option.value];
+				});
+				this.plugin.settings.actionTypeWeights = builtInWeights;
+				await this.plugin.saveSettings();
+			}
+		);
+	}
+
+	private addActionTypeUsageSection(containerEl: HTMLElement): void {
+		new Setting(containerEl)
+			.setName('Balancing window (days)')
+			.setDesc('How many days of past queue usage are taken into account when balancing action types')
+			.addSlider(slider => slider
+				.setLimits(1, 60, 1)
+				.setValue(this.plugin.settings.actionTypeUsageWindowDays)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.actionTypeUsageWindowDays = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Reset balancing history')
+			.setDesc('Forget which action types were shown recently in every context')
+			.addButton(button => button
+				.setButtonText('Reset')
+				.onClick(async () => {
+					await this.plugin.actionTypeUsage.reset();
+					new Notice('Action type balancing history cleared.');
+				}));
+	}
+
+	private addContextWeightsSection(containerEl: HTMLElement): void {
+		containerEl.createEl('h3', { text: 'Per-Context Weights' });
+
+		const contextKeys = this.plugin.contextIndex.getContextKeys().sort();
+		const overrides = this.plugin.settings.contextActionTypeWeights;
+
+		new Setting(containerEl)
+			.setName('Context')
+			.setDesc('Override the action type weights for a single context')
+			.addDropdown(dropdown => {
+				dropdown.addOption('', 'Select a context...');
+				contextKeys.forEach(context => {
+					const label = ContextUtils.hydrateContextKey(context);
+					dropdown.addOption(context, context in overrides ? `${label} (custom)` : label);
+				});
+				dropdown.setValue(this.selectedWeightsContext);
+				dropdown.onChange(value => {
+					this.selectedWeightsContext = value;
+					this.display();
+				});
+			});
+
+		const context = this.selectedWeightsContext;
+		if (context === '') {
+			return;
+		}
+
+		const hasOverride = context in overrides;
+		new Setting(containerEl)
+			.setName('Use custom weights')
+			.setDesc(`When disabled, "${ContextUtils.hydrateContextKey(context)}" uses the global weights above`)
+			.addToggle(toggle => toggle
+				.setValue(hasOverride)
+				.onChange(async (enabled) => {
+					const updatedOverrides = { ...this.plugin.settings.contextActionTypeWeights };
+					if (enabled) {
+						updatedOverrides[context] = ActionTypeWeightsConfig.resolveWeights(this.plugin.settings);
+					} else {
+						delete updatedOverrides[context];
+					}
+					this.plugin.settings.contextActionTypeWeights = updatedOverrides;
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		if (hasOverride) {
+			this.renderWeightSliders(
+				containerEl,
+				ActionTypeRegistry.getActionOptions(this.plugin.settings),
+				ActionTypeWeightsConfig.resolveWeights(this.plugin.settings, context),
+				async (weights) => {
+					this.plugin.settings.contextActionTypeWeights = {
+						...this.plugin.settings.contextActionTypeWeights,
+						[context]: weights
+					};
+					await this.plugin.saveSettings();
+				}
+			);
+		}
+	}
+
+	private addContextAvailabilitySection(containerEl: HTMLElement): void {
+		containerEl.createEl('h3', { text: 'Context Availability' });
+
+		const contextKeys = this.plugin.contextIndex.getContextKeys().sort();
+
+		new Setting(containerEl)
+			.setName('Context')
+			.setDesc('Set when a context applies. Active contexts are highlighted in the context browser and can be started with the command "Start queue for contexts active now".')
+			.addDropdown(dropdown => {
+				dropdown.addOption('', 'Select a context...');
+				contextKeys.forEach(context => {
+					const label = ContextUtils.hydrateContextKey(context);
+					const availability = ContextAvailabilityConfig.getAvailability(this.plugin.settings, context);
+					dropdown.addOption(context, availability ? `${label} (${ContextAvailabilityConfig.describe(availability)})` : label);
+				});
+				dropdown.setValue(this.selectedAvailabilityContext);
+				dropdown.onChange(value => {
+					this.selectedAvailabilityContext = value;
+					this.display();
+				});
+			});
+
+		const context = this.selectedAvailabilityContext;
+		if (context === '') {
+			return;
+		}
+
+		const availability: ContextAvailability = {
+			...ContextAvailabilityConfig.createEmpty(),
+			...this.plugin.settings.contextAvailability[context]
+		};
+		const saveAvailability = async (changes: Partial<ContextAvailability>): Promise<void> => {
+			Object.assign(availability, changes);
+			const updated = { ...this.plugin.settings.contextAvailability };
+			if (ContextAvailabilityConfig.hasRules(availability)) {
+				updated[context] = { ...availability };
+			} else {
+				delete updated[context];
+			}
+			this.plugin.settings.contextAvailability = updated;
+			await this.plugin.saveSettings();
+		};
+
+		// Only valid values are saved; clearing a field removes the rule
+		const parseOptional = (value: string, isValid: (trimmed: string) => boolean): string | null | undefined => {
+			const trimmed = value.trim();
+			if (trimmed === '') {
+				return null;
+			}
+			return isValid(trimmed) ? trimmed : undefined;
+		};
+
+		new Setting(containerEl)
+			.setName('Time of day')
+			.setDesc('From / until (HH:MM). Windows can wrap past midnight, e.g. 22:00 until 02:00.')
+			.addText(text => text
+				.setPlaceholder('07:00')
+				.setValue(availability.startTime ?? '')
+				.onChange(async (value) => {
+					const startTime = parseOptional(value, trimmed => DateUtils.parseTimeOfDay(trimmed) !== null);
+					if (startTime !== undefined) {
+						await saveAvailability({ startTime });
+					}
+				}))
+			.addText(text => text
+				.setPlaceholder('09:00')
+				.setValue(availability.endTime ?? '')
+				.onChange(async (value) => {
+					const endTime = parseOptional(value, trimmed => DateUtils.parseTimeOfDay(trimmed) !== null);
+					if (endTime !== undefined) {
+						await saveAvailability({ endTime });
+					}
+				}));
+
+		const weekdaysSetting = new Setting(containerEl)
+			.setName('Weekdays')
+			.setDesc(`${WEEKDAY_LABELS.join(' / ')}. None selected means every day.`);
+		WEEKDAY_LABELS.forEach((label, day) => {
+			weekdaysSetting.addToggle(toggle => toggle
+				.setTooltip(label)
+				.setValue(availability.weekdays.includes(day))
+				.onChange(async (enabled) => {
+					const weekdays = availability.weekdays.filter(existing => existing !== day);
+					if (enabled) {
+						weekdays.push(day);
+					}
+					await saveAvailability({ weekdays: weekdays.sort() });
+				}));
+		});
+
+		new Setting(containerEl)
+			.setName('Dates')
+			.setDesc('From / until (yyyy-mm-dd, inclusive), e.g. for a holiday or an exam period')
+			.addText(text => text
+				.setPlaceholder('2024-12-01')
+				.setValue(availability.startDate ?? '')
+				.onChange(async (value) => {
+					const startDate = parseOptional(value, trimmed => DateUtils.isValidDateString(trimmed));
+					if (startDate !== undefined) {
+						await saveAvailability({ startDate });
+					}
+				}))
+			.addText(text => text
+				.setPlaceholder('2024-12-24')
+				.setValue(availability.endDate ?? '')
+				.onChange(async (value) => {
+					const endDate = parseOptional(value, trimmed => DateUtils.isValidDateString(trimmed));
+					if (endDate !== undefined) {
+						await saveAvailability({ endDate });
+					}
+				}));
+
+		new Setting(containerEl)
+			.setName('Clear rules')
+			.setDesc(`Make "${ContextUtils.hydrateContextKey(context)}" available at all times again`)
+			.addButton(button => button
+				.setButtonText('Clear')
+				.onClick(async () => {
+					await saveAvailability(ContextAvailabilityConfig.createEmpty());
+					this.display();
+				}));
+	}
+
+	private addQuotaSection(containerEl: HTMLElement): void {
+		containerEl.createEl('h3', { text: 'Daily Quotas' });
+
+		// Only positive whole numbers are saved; clearing a field removes the limit
+		const parseLimit = (value: string): number | null | undefined => {
+			const trimmed = value.trim();
+			if (trimmed === '') {
+				return null;
+			}
+			const limit = Number(trimmed);
+			return Number.isInteger(limit) && limit > 0 ? limit : undefined;
+		};
+
+		new Setting(containerEl)
+			.setName('Session goal')
+			.setDesc('Number of notes after which a queue suggests taking a break. Leave empty for no goal.')
+			.addText(text => text
+				.setPlaceholder('10')
+				.setValue(this.plugin.settings.sessionGoal > 0 ? String(this.plugin.settings.sessionGoal) : '')
+				.onChange(async (value) => {
+					const goal = parseLimit(value);
+					if (goal !== undefined) {
+						this.plugin.settings.sessionGoal = goal ?? 0;
+						await this.plugin.saveSettings();
+					}
+				}));
+
+		const contextKeys = this.plugin.contextIndex.getContextKeys().sort();
+
+		new Setting(containerEl)
+			.setName('Context')
+			.setDesc('Limit how many notes a context (including its sub-contexts) shows per day. Once reached, the queue stops for the day.')
+			.addDropdown(dropdown => {
+				dropdown.addOption('', 'Select a context...');
+				contextKeys.forEach(context => {
+					const label = ContextUtils.hydrateContextKey(context);
+					const quota = this.plugin.dailyProgress.getQuota(context);
+					dropdown.addOption(context, quota ? `${label} (${this.describeQuota(quota)})` : label);
+				});
+				dropdown.setValue(this.selectedQuotaContext);
+				dropdown.onChange(value => {
+					this.selectedQuotaContext = value;
+					this.display();
+				});
+			});
+
+		const context = this.selectedQuotaContext;
+		if (context === '') {
+			return;
+		}
+
+		const quota: ContextQuota = {
+			...(this.plugin.settings.contextQuotas[context] ?? { notesPerDay: null, memorizePerDay: null })
+		};
+		const saveQuota = async (changes: Partial<ContextQuota>): Promise<void> => {
+			Object.assign(quota, changes);
+			const updated = { ...this.plugin.settings.contextQuotas };
+			if (quota.notesPerDay !== null || quota.memorizePerDay !== null) {
+				updated[context] = { ...quota };
+			} else {
+				delete updated[context];
+			}
+			this.plugin.settings.contextQuotas = updated;
+			await this.plugin.saveSettings();
+		};
+
+		const count = this.plugin.dailyProgress.getCount(context);
+
+		new Setting(containerEl)
+			.setName('Notes per day')
+			.setDesc(`Shown today: ${count.notes}`)
+			.addText(text => text
+				.setPlaceholder('Unlimited')
+				.setValue(quota.notesPerDay !== null ? String(quota.notesPerDay) : '')
+				.onChange(async (value) => {
+					const notesPerDay = parseLimit(value);
+					if (notesPerDay !== undefined) {
+						await saveQuota({ notesPerDay });
+					}
+				}));
+
+		new Setting(containerEl)
+			.setName('Memorize reviews per day')
+			.setDesc(`Reviewed today: ${count.memorize}. Once reached, the queue continues with other action types.`)
+			.addText(text => text
+				.setPlaceholder('Unlimited')
+				.setValue(quota.memorizePerDay !== null ? String(quota.memorizePerDay) : '')
+				.onChange(async (value) => {
+					const memorizePerDay = parseLimit(value);
+					if (memorizePerDay !== undefined) {
+						await saveQuota({ memorizePerDay });
+					}
+				}));
+	}
+
+	private addMemorizationSection(containerEl: HTMLElement): void {
+		containerEl.createEl('h3', { text: 'Memorization' });
+
+		new Setting(containerEl)
+			.setName('New cards per day')
+			.setDesc(`How many memorize notes that were never reviewed are introduced per day, across all contexts. Introduced today: ${this.plugin.dailyProgress.getNewCardsIntroduced()}`)
+			.addSlider(slider => slider
+				.setLimits(0, 100, 1)
+				.setValue(this.plugin.settings.newCardsPerDay)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.newCardsPerDay = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Review order')
+			.setDesc('Which due memorize note comes up next')
+			.addDropdown(dropdown => dropdown
+				.addOption('random', 'Random')
+				.addOption('overdue', 'Most overdue first')
+				.addOption('retrievability', 'Lowest retrievability first')
+				.setValue(this.plugin.settings.reviewOrder)
+				.onChange(async (value) => {
+					this.plugin.settings.reviewOrder = value as ReviewOrder;
+					await this.plugin.saveSettings();
+				}));
+
+		this.addSubCardSourcesSection(containerEl);
+
+		this.renderSchedulingParameters(containerEl, this.plugin.settings.schedulingParameters, async (parameters) => {
+			this.plugin.settings.schedulingParameters = parameters;
+			await this.plugin.saveSettings();
+		});
+
+		this.addContextSchedulingSection(containerEl);
+	}
+
+	private addSubCardSourcesSection(containerEl: HTMLElement): void {
+		const sources: [SubCardSource, string, string][] = [
+			['inline', 'Cards from "::" lines', 'Every "question :: answer" line of a memorize note is reviewed as its own card.'],
+			['heading-list', 'Cards from headings with lists', 'A heading followed only by a list becomes a card with the heading as question and the list as answer.'],
+			['table', 'Cards from table rows', 'Every table row becomes a card with the first cell as question and the other cells as answer.'],
+			['highlight', 'Cloze deletions from highlights', 'Notes without numbered clozes ({{c1::...}}) hide each ==highlight== as its own card. Leave this off if you use highlights for emphasis.']
+		];
+
+		sources.forEach(([source, name, description]) => {
+			new Setting(containerEl)
+				.setName(name)
+				.setDesc(description)
+				.addToggle(toggle => toggle
+					.setValue(this.plugin.settings.subCardSources.includes(source))
+					.onChange(async (value) => {
+						const enabled = this.plugin.settings.subCardSources.filter(existing => existing !== source);
+						this.plugin.settings.subCardSources = value ? [...enabled, source] : enabled;
+						await this.plugin.saveSettings();
+					}));
+		});
+	}
+
+	private addContextSchedulingSection(containerEl: HTMLElement): void {
+		const contextKeys = this.plugin.contextIndex.getContextKeys().sort();
+		const overrides = this.plugin.settings.contextSchedulingParameters;
+
+		new Setting(containerEl)
+			.setName('Context')
+			.setDesc('Give a context its own scheduling parameters, e.g. a higher retention for an upcoming exam, or ask its notes in reverse.')
+			.addDropdown(dropdown => {
+				dropdown.addOption('', 'Select a context...');
+				contextKeys.forEach(context => {
+					const label = ContextUtils.hydrateContextKey(context);
+					dropdown.addOption(context, context in overrides ? `${label} (customized)` : label);
+				});
+				dropdown.setValue(this.selectedSchedulingContext);
+				dropdown.onChange(value => {
+					this.selectedSchedulingContext = value;
+					this.display();
+				});
+			});
+
+		const context = this.selectedSchedulingContext;
+		if (context === '') {
+			return;
+		}
+
+		new Setting(containerEl)
+			.setName('Reverse cards')
+			.setDesc('Also ask memorize notes of this context (and its sub-contexts) the other way round: show the answer, recall the title or question. A note can override this with "see-you-again-reverse: true" or "false" in its frontmatter.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.reverseCardContexts.includes(context))
+				.onChange(async (value) => {
+					const others = this.plugin.settings.reverseCardContexts.filter(existing => existing !== context);
+					this.plugin.settings.reverseCardContexts = value ? [...others, context] : others;
+					await this.plugin.saveSettings();
+				}));
+
+		const contextParameters = overrides[context] ?? null;
+
+		new Setting(containerEl)
+			.setName('Use own parameters')
+			.setDesc('When off, this context uses the parameters above')
+			.addToggle(toggle => toggle
+				.setValue(contextParameters !== null)
+				.onChange(async (value) => {
+					const updated = { ...this.plugin.settings.contextSchedulingParameters };
+					if (value) {
+						updated[context] = { ...this.plugin.settings.schedulingParameters };
+					} else {
+						delete updated[context];
+					}
+					this.plugin.settings.contextSchedulingParameters = updated;
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		if (contextParameters === null) {
+			return;
+		}
+
+		this.renderSchedulingParameters(containerEl, contextParameters, async (parameters) => {
+			this.plugin.settings.contextSchedulingParameters = {
+				...this.plugin.settings.contextSchedulingParameters,
+				[context]: parameters
+			};
+			await this.plugin.saveSettings();
+		});
+	}
+
+	private renderSchedulingParameters(
+		containerEl: HTMLElement,
+		initialParameters: SchedulingParameters,
+		onSave: (parameters: SchedulingParameters) => Promise<void>
+	): void {
+		let parameters: SchedulingParameters = { ...SchedulingParametersConfig.createDefault(), ...initialParameters };
+		let previewEl: HTMLElement | null = null;
+
+		const save = async (changes: Partial<SchedulingParameters>): Promise<void> => {
+			parameters = { ...parameters, ...changes };
+			await onSave(parameters);
+			if (previewEl) {
+				this.renderIntervalPreview(previewEl, parameters);
+			}
+		};
+
+		new Setting(containerEl)
+			.setName('Desired retention')
+			.setDesc('Chance of still remembering a note when it comes up again. Higher values mean more frequent reviews.')
+			.addSlider(slider => slider
+				.setLimits(0.7, 0.99, 0.01)
+				.setValue(parameters.desiredRetention)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					await save({ desiredRetention: value });
+				}));
+
+		new Setting(containerEl)
+			.setName('Maximum interval (days)')
+			.setDesc('Longest time between two reviews of a note')
+			.addText(text => text
+				.setPlaceholder('36500')
+				.setValue(String(parameters.maximumIntervalDays))
+				.onChange(async (value) => {
+					// Only positive whole numbers are saved
+					const days = Number(value.trim());
+					if (Number.isInteger(days) && days > 0) {
+						await save({ maximumIntervalDays: days });
+					}
+				}));
+
+		new Setting(containerEl)
+			.setName('Fuzz intervals')
+			.setDesc('Slightly randomize intervals so notes learned together don\'t keep coming up on the same day')
+			.addToggle(toggle => toggle
+				.setValue(parameters.enableFuzz)
+				.onChange(async (value) => {
+					await save({ enableFuzz: value });
+				}));
+
+		new Setting(containerEl)
+			.setName('FSRS weights')
+			.setDesc('Custom weights, e.g. from the FSRS optimizer (17 or 19 numbers, separated by commas). Leave empty for the defaults.')
+			.addTextArea(textArea => textArea
+				.setPlaceholder('Default weights')
+				.setValue(parameters.weights ? parameters.weights.join(', ') : '')
+				.onChange(async (value) => {
+					const weights = SchedulingParametersConfig.parseWeights(value);
+					if (weights !== undefined) {
+						await save({ weights });
+					}
+				}));
+
+		previewEl = containerEl.createEl('div');
+		previewEl.className = 'scheduling-preview';
+		this.renderIntervalPreview(previewEl, parameters);
+	}
+
+	private renderIntervalPreview(previewEl: HTMLElement, parameters: SchedulingParameters): void {
+		previewEl.empty();
+		previewEl.createEl('div', { text: 'Intervals per grade', cls: 'setting-item-name' });
+
+		const table = previewEl.createEl('table');
+		const previews = SchedulingParametersConfig.previewIntervals(parameters);
+
+		const headerRow = table.createEl('tr');
+		headerRow.createEl('th');
+		previews[0].intervals.forEach(({ grade }) => {
+			headerRow.createEl('th', { text: grade });
+		});
+
+		previews.forEach(preview => {
+			const row = table.createEl('tr');
+			row.createEl('td', { text: preview.situation });
+			preview.intervals.forEach(({ interval }) => {
+				row.createEl('td', { text: interval });
+			});
+		});
+	}
+
+	private describeQuota(quota: ContextQuota): string {
+		const parts: string[] = [];
+		if (quota.notesPerDay !== null) {
+			parts.push(`${quota.notesPerDay} notes`);
+		}
+		if (quota.memorizePerDay !== null) {
+			parts.push(`${quota.memorizePerDay} reviews`);
+		}
+		return `${parts.join(', ')} per day`;
+	}
+
+	private addCustomActionTypesSection(containerEl: HTMLElement): void {
+		containerEl.createEl('h3', { text: 'Custom Action Types' });
+
+		this.plugin.settings.customActionTypes.forEach(definition => {
+			this.renderCustomActionType(containerEl, definition);
+		});
+
+		let newLabel = '';
+		new Setting(containerEl)
+			.setName('Add action type')
+			.setDesc('For example "practice", "share with someone" or "read aloud"')
+			.addText(text => text
+				.setPlaceholder('Name')
+				.onChange(value => {
+					newLabel = value;
+				}))
+			.addButton(button => button
+				.setButtonText('Add')
+				.setCta()
+				.onClick(async () => {
+					const definition = ActionTypeRegistry.createCustomDefinition(this.plugin.settings, newLabel);
+					if (!definition) {
+						new Notice('Please enter a name that is not used by another action type.');
+						return;
+					}
+					this.plugin.settings.customActionTypes = [...this.plugin.settings.customActionTypes, definition];
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+	}
+
+	private renderCustomActionType(containerEl: HTMLElement, definition: CustomActionTypeDefinition): void {
+		const saveDefinition = async (changes: Partial<CustomActionTypeDefinition>): Promise<void> => {
+			this.plugin.settings.customActionTypes = this.plugin.settings.customActionTypes.map(existing =>
+				existing.id === definition.id ? { ...existing, ...changes } : existing
+			);
+			Object.assign(definition, changes);
+			await this.plugin.saveSettings();
+		};
+
+		new Setting(containerEl)
+			.setName(definition.label)
+			.setDesc(`Stored in notes as "${definition.id}"`)
+			.setHeading()
+			.addButton(button => button
+				.setButtonText('Delete')
+				.setWarning()
+				.onClick(async () => {
+					if (!confirm(`Delete the action type "${definition.label}"? Notes using it will be shown as "Look At".`)) {
+						return;
+					}
+					this.plugin.settings.customActionTypes = this.plugin.settings.customActionTypes.filter(existing => existing.id !== definition.id);
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		new Setting(containerEl)
+			.setName('Label')
+			.addText(text => text
+				.setValue(definition.label)
+				.onChange(async (value) => {
+					if (value.trim()) {
+						await saveDefinition({ label: value.trim() });
+					}
+				}));
+
+		new Setting(containerEl)
+			.setName('Prompt')
+			.setDesc('Shown as the heading in the queue')
+			.addText(text => text
+				.setValue(definition.prompt)
+				.onChange(async (value) => {
+					await saveDefinition({ prompt: value });
+				}));
+
+		const buttonsSetting = new Setting(containerEl)
+			.setName('Buttons')
+			.setDesc(CUSTOM_ACTION_BUTTON_OPTIONS.map(option => option.label).join(' / '));
+		CUSTOM_ACTION_BUTTON_OPTIONS.forEach(option => {
+			buttonsSetting.addToggle(toggle => toggle
+				.setTooltip(option.label)
+				.setValue(definition.buttons.includes(option.value))
+				.onChange(async (enabled) => {
+					// Keep buttons in their canonical order
+					const buttons = CUSTOM_ACTION_BUTTON_OPTIONS
+						.map(buttonOption => buttonOption.value)
+						.filter(value => value === option.value ? enabled : definition.buttons.includes(value));
+					await saveDefinition({ buttons });
+				}));
+		});
+
+		new Setting(containerEl)
+			.setName('Text input')
+			.setDesc('Offer a text box whose content is appended to the note on "Done"')
+			.addToggle(toggle => toggle
+				.setValue(definition.textInput)
+				.onChange(async (value) => {
+					await saveDefinition({ textInput: value });
+				}));
+
+		new Setting(containerEl)
+			.setName('Weight')
+			.setDesc('How often this action type comes up compared to the others')
+			.addSlider(slider => slider
+				.setLimits(0, 10, 1)
+				.setValue(definition.weight)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					await saveDefinition({ weight: value });
+				}));
+	}
+
+	/**
+	 * Render one slider per action type, with a live preview of the expected share of each type
+	 */
+	private renderWeightSliders(
+		containerEl: HTMLElement,
+		options: ActionOption[],
+		initialWeights: ActionTypeWeights,
+		onSave: (weights: ActionTypeWeights) => Promise<void>
+	): void {
+		const weights = { ...initialWeights };
+		const previews = new Map<ActionTypeId, HTMLElement>();
+
+		const updatePreviews = (): void => {
+			previews.forEach((previewEl, actionType) => {
+				const percentage = ActionTypeWeightsConfig.getExpectedPercentage(actionType, weights);
+				previewEl.setText(`Expected share: ${percentage.toFixed(1)}%`);
+			});
+		};
+
+		options.forEach(option => {
+			const setting = new Setting(containerEl)
+				.setName(option.label)
+				.addSlider(slider => slider
+					.setLimits(0, 10, 1)
+					.setValue(ActionTypeWeightsConfig.getWeight(option.value, weights))
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						weights[option.value] = value;
+						updatePreviews();
+						await onSave({ ...weights });
+					}));
+			previews.set(option.value, setting.descEl);
+		});
+
+		updatePreviews();
+	}
+
 	private addStatsSection(containerEl: HTMLElement): void {
 		containerEl.createEl('h3', { text: 'Statistics' });
 		
@@ -43,6 +875,15 @@ export class SeeYouAgainSettingTab extends PluginSettingTab {
 
 		// We'll calculate and display stats about processed vs unprocessed notes
 		this.calculateAndDisplayStats(statsContainer);
+
+		new Setting(containerEl)
+			.setName('Statistics dashboard')
+			.setDesc('Notes per context and action type, memorize cards, due forecast, retention and review history')
+			.addButton(button => button
+				.setButtonText('Open statistics')
+				.onClick(async () => {
+					await this.plugin.activateStatisticsView();
+				}));
 	}
 
 	private calculateAndDisplayStats(container: HTMLElement): void {
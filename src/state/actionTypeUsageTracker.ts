@@ -0,0 +1,106 @@
+import type { ActionTypeId, SeeYouAgainPlugin } from '../types';
+import { DateUtils } from '../utils/dateUtils';
+import { ActionTypeRegistry } from '../config/actionTypeRegistry';
+
+/**
+ * Daily action type counts for one context, keyed by human day (yyyy-mm-dd)
+ */
+export type ActionTypeUsageHistory = Record<string, Record<string, number>>;
+
+/**
+ * Persisted, per-context action type usage over a rolling window of days.
+ * Feeds the deficit balancing in ActionTypeScheduler across plugin reloads.
+ */
+export class ActionTypeUsageTracker {
+	constructor(private plugin: SeeYouAgainPlugin) {}
+
+	/**
+	 * Record that an action type was shown in a context today
+	 */
+	async record(sanitizedContext: string, actionType: ActionTypeId): Promise<void> {
+		const today = DateUtils.getCurrentHumanDay();
+		const history: ActionTypeUsageHistory = { ...this.plugin.settings.actionTypeUsageHistory[sanitizedContext] };
+		const dayUsage = { ...history[today] };
+
+		dayUsage[actionType] = (dayUsage[actionType] ?? 0) + 1;
+		history[today] = dayUsage;
+
+		this.plugin.settings.actionTypeUsageHistory = {
+			...this.plugin.settings.actionTypeUsageHistory,
+			[sanitizedContext]: this.pruneHistory(history, today)
+		};
+		await this.plugin.saveSettings();
+	}
+
+	/**
+	 * Get the usage counts of a context within the rolling window
+	 */
+	getUsage(sanitizedContext: string): Record<string, number> {
+		const usage = this.createEmptyUsage();
+		const history: ActionTypeUsageHistory | undefined = this.plugin.settings.actionTypeUsageHistory[sanitizedContext];
+		if (history === undefined) {
+			return usage;
+		}
+
+		const today = DateUtils.getCurrentHumanDay();
+		for (const [day, dayUsage] of Object.entries(history)) {
+			if (!this.isWithinWindow(day, today)) {
+				continue;
+			}
+			for (const [actionType, count] of Object.entries(dayUsage) as [ActionTypeId, number][]) {
+				// Ignore custom action types that have been deleted since
+				if (actionType in usage) {
+					usage[actionType] += count;
+				}
+			}
+		}
+
+		return usage;
+	}
+
+	/**
+	 * Get the usage counts of several contexts combined, for queues drawing from all of them
+	 */
+	getCombinedUsage(sanitizedContexts: string[]): Record<string, number> {
+		const usage = this.createEmptyUsage();
+		for (const context of sanitizedContexts) {
+			for (const [actionType, count] of Object.entries(this.getUsage(context))) {
+				usage[actionType] += count;
+			}
+		}
+		return usage;
+	}
+
+	/**
+	 * Forget all recorded usage
+	 */
+	async reset(): Promise<void> {
+		this.plugin.settings.actionTypeUsageHistory = {};
+		await this.plugin.saveSettings();
+	}
+
+	private pruneHistory(history: ActionTypeUsageHistory, today: string): ActionTypeUsageHistory {
+		const pruned: ActionTypeUsageHistory = {};
+		for (const [day, dayUsage] of Object.entries(history)) {
+			if (this.isWithinWindow(day, today)) {
+				pruned[day] = dayUsage;
+			}
+		}
+		return pruned;
+	}
+
+	private isWithinWindow(day: string, today: string): boolean {
+		if (!DateUtils.isValidDateString(day)) {
+			return false;
+		}
+		return DateUtils.daysBetween(day, today) < this.plugin.settings.actionTypeUsageWindowDays;
+	}
+
+	private createEmptyUsage(): Record<string, number> {
+		const usage: Record<string, number> = {};
+		ActionTypeRegistry.getActionOptions(this.plugin.settings).forEach(option => {
+			usage[option.value] = 0;
+		});
+		return usage;
+	}
+}
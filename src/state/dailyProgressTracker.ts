@@ -0,0 +1,149 @@
+import type { ActionTypeId, ContextQuota, SeeYouAgainPlugin } from '../types';
+import { DateUtils } from '../utils/dateUtils';
+import { ContextUtils } from '../utils/contextUtils';
+
+/**
+ * Number of notes shown in one context on one day, how many of them were memorize reviews
+ * and how many of those were introduced for the first time
+ */
+export interface DailyContextCount {
+	notes: number;
+	memorize: number;
+	newCards: number;
+}
+
+/**
+ * Per-context counts of the current human day; counts of earlier days are dropped
+ */
+export interface DailyProgress {
+	day: string;
+	counts: Record<string, DailyContextCount>;
+}
+
+/**
+ * Persisted count of the notes shown per context today, checked against the daily quotas.
+ * A quota of a context also covers its sub-contexts.
+ */
+export class DailyProgressTracker {
+	constructor(private plugin: SeeYouAgainPlugin) {}
+
+	/**
+	 * Record that a note was done in a context today
+	 */
+	async record(sanitizedContext: string, actionType: ActionTypeId, isNewCard = false): Promise<void> {
+		const counts = { ...this.getTodayCounts() };
+		const count = { ...this.createEmptyCount(), ...counts[sanitizedContext] };
+
+		count.notes++;
+		if (actionType === 'memorize') {
+			count.memorize++;
+			if (isNewCard) {
+				count.newCards++;
+			}
+		}
+		counts[sanitizedContext] = count;
+
+		this.plugin.settings.dailyProgress = { day: DateUtils.getCurrentHumanDay(), counts };
+		await this.plugin.saveSettings();
+	}
+
+	/**
+	 * Take back a recorded note (used when its action is undone); counts of a previous day are left alone
+	 */
+	async remove(sanitizedContext: string, actionType: ActionTypeId, isNewCard = false): Promise<void> {
+		const counts = { ...this.getTodayCounts() };
+		const existing = counts[sanitizedContext];
+		if (existing === undefined) {
+			return;
+		}
+
+		const count = { ...this.createEmptyCount(), ...existing };
+		count.notes = Math.max(0, count.notes - 1);
+		if (actionType === 'memorize') {
+			count.memorize = Math.max(0, count.memorize - 1);
+			if (isNewCard) {
+				count.newCards = Math.max(0, count.newCards - 1);
+			}
+		}
+		counts[sanitizedContext] = count;
+
+		this.plugin.settings.dailyProgress = { day: DateUtils.getCurrentHumanDay(), counts };
+		await this.plugin.saveSettings();
+	}
+
+	/**
+	 * Get today's count of a context, including its sub-contexts
+	 */
+	getCount(sanitizedContext: string): DailyContextCount {
+		const total = this.createEmptyCount();
+		for (const [context, count] of Object.entries(this.getTodayCounts())) {
+			if (ContextUtils.isSameOrDescendant(context, sanitizedContext)) {
+				total.notes += count.notes;
+				total.memorize += count.memorize;
+				total.newCards += count.newCards ?? 0;
+			}
+		}
+		return total;
+	}
+
+	/**
+	 * How many new memorize notes were introduced today, across all contexts
+	 */
+	getNewCardsIntroduced(): number {
+		let introduced = 0;
+		for (const count of Object.values(this.getTodayCounts())) {
+			introduced += count.newCards ?? 0;
+		}
+		return introduced;
+	}
+
+	/**
+	 * How many new memorize notes may still be introduced today, across all contexts
+	 */
+	getNewCardsRemaining(): number {
+		return Math.max(0, this.plugin.settings.newCardsPerDay - this.getNewCardsIntroduced());
+	}
+
+	/**
+	 * Get the quota configured for a context, if any
+	 */
+	getQuota(sanitizedContext: string): ContextQuota | null {
+		const quota = this.plugin.settings.contextQuotas[sanitizedContext] ?? null;
+		return quota !== null && (quota.notesPerDay !== null || quota.memorizePerDay !== null) ? quota : null;
+	}
+
+	/**
+	 * Check if the daily note quota of a context or one of its parents is used up
+	 */
+	isNoteLimitReached(sanitizedContext: string): boolean {
+		return this.isLimitReached(sanitizedContext, quota => quota.notesPerDay, count => count.notes);
+	}
+
+	/**
+	 * Check if the daily memorize quota of a context or one of its parents is used up
+	 */
+	isMemorizeLimitReached(sanitizedContext: string): boolean {
+		return this.isLimitReached(sanitizedContext, quota => quota.memorizePerDay, count => count.memorize);
+	}
+
+	private isLimitReached(
+		sanitizedContext: string,
+		getLimit: (quota: ContextQuota) => number | null,
+		getUsed: (count: DailyContextCount) => number
+	): boolean {
+		return [...ContextUtils.getAncestorContexts(sanitizedContext), sanitizedContext].some(context => {
+			const quota = this.getQuota(context);
+			const limit = quota ? getLimit(quota) : null;
+			return limit !== null && getUsed(this.getCount(context)) >= limit;
+		});
+	}
+
+	private createEmptyCount(): DailyContextCount {
+		return { notes: 0, memorize: 0, newCards: 0 };
+	}
+
+	private getTodayCounts(): Record<string, DailyContextCount> {
+		const { dailyProgress } = this.plugin.settings;
+		return dailyProgress.day === DateUtils.getCurrentHumanDay() ? dailyProgress.counts : {};
+	}
+}
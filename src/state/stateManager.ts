@@ -1,9 +1,7 @@
-import type { ActionType } from '../types';
-
 export interface PluginState {
   // Navigation state
   lastContextNote: string | null;
-  lastContext: string | null;
+  lastContexts: string[] | null;
   
   // UI state
   currentModalType: 'context-browser' | 'note-viewer' | null;
@@ -13,12 +11,8 @@ export interface PluginState {
   sessionStartTime: number;
   notesProcessedThisSession: number;
   
-  // Action type tracking
-  actionTypeUsage: Record<ActionType, number>;
-  
-  // Cache state
-  cachedContexts: string[] | null;
-  contextsCacheTimestamp: number | null;
+  // Content hashes of notes when an "improve" action started, keyed by path
+  improveBaselines: Record<string, string>;
 }
 
 type StateListener<T = unknown> = (newValue: T, oldValue: T) => void;
@@ -30,20 +24,12 @@ export class StateManager {
   constructor(initialState?: Partial<PluginState>) {
     this.state = {
       lastContextNote: null,
-      lastContext: null,
+      lastContexts: null,
       currentModalType: null,
       isProcessingNote: false,
       sessionStartTime: Date.now(),
       notesProcessedThisSession: 0,
-      actionTypeUsage: {
-        'look-at': 0,
-        'iterate': 0,
-        'schedule': 0,
-        'evaluate': 0,
-        'memorize': 0,
-      },
-      cachedContexts: null,
-      contextsCacheTimestamp: null,
+      improveBaselines: {},
       ...initialState
     };
   }
@@ -133,41 +119,31 @@ export class StateManager {
   clearNavigationState(): void {
     this.update({
       lastContextNote: null,
-      lastContext: null,
+      lastContexts: null,
       currentModalType: null
     });
   }
   
-  invalidateCache(): void {
-    this.update({
-      cachedContexts: null,
-      contextsCacheTimestamp: null
-    });
-  }
-  
   incrementNotesProcessed(): void {
     this.set('notesProcessedThisSession', this.state.notesProcessedThisSession + 1);
   }
+
+  decrementNotesProcessed(): void {
+    this.set('notesProcessedThisSession', Math.max(0, this.state.notesProcessedThisSession - 1));
+  }
   
-  // Action type tracking methods
-  incrementActionTypeUsage(actionType: ActionType): void {
-    const currentUsage = { ...this.state.actionTypeUsage };
-    currentUsage[actionType] = (currentUsage[actionType] || 0) + 1;
-    this.set('actionTypeUsage', currentUsage);
+  // Improve action tracking methods
+  getImproveBaseline(notePath: string): string | null {
+    return this.state.improveBaselines[notePath] ?? null;
   }
   
-  getActionTypeUsage(): Record<ActionType, number> {
-    return { ...this.state.actionTypeUsage };
+  setImproveBaseline(notePath: string, contentHash: string): void {
+    this.set('improveBaselines', { ...this.state.improveBaselines, [notePath]: contentHash });
   }
   
-  resetActionTypeUsage(): void {
-    const resetUsage: Record<ActionType, number> = {
-      'look-at': 0,
-      'iterate': 0,
-      'schedule': 0,
-      'evaluate': 0,
-      'memorize': 0,
-    };
-    this.set('actionTypeUsage', resetUsage);
+  clearImproveBaseline(notePath: string): void {
+    const baselines = { ...this.state.improveBaselines };
+    delete baselines[notePath];
+    this.set('improveBaselines', baselines);
   }
 }
\ No newline at end of file
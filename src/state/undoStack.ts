@@ -0,0 +1,61 @@
+import type { TFile } from 'obsidian';
+
+import type { ActionTypeId } from '../types';
+
+/**
+ * A reversible queue action, together with the note and context it was performed in
+ */
+export interface UndoEntry {
+	description: string;
+	note: TFile;
+	context: string;
+	actionType: ActionTypeId;
+	revert: () => Promise<void>;
+}
+
+/**
+ * A queue session that can undo its last action (used by the undo command)
+ */
+export interface UndoableQueue {
+	canUndo(): boolean;
+	undoLastAction(): Promise<void>;
+}
+
+/**
+ * Bounded LIFO stack of undoable actions of the running queue, including across jumping to a note and resuming
+ */
+export class UndoStack {
+	private entries: UndoEntry[] = [];
+
+	constructor(private maxSize = 50) {}
+
+	push(entry: UndoEntry): void {
+		this.entries.push(entry);
+		if (this.entries.length > this.maxSize) {
+			this.entries.shift();
+		}
+	}
+
+	peek(): UndoEntry | null {
+		return this.entries[this.entries.length - 1] ?? null;
+	}
+
+	pop(): UndoEntry | null {
+		return this.entries.pop() ?? null;
+	}
+
+	/**
+	 * Drop the entries of a note, e.g. because it was deleted and can't be shown again
+	 */
+	removeNote(note: TFile): void {
+		this.entries = this.entries.filter(entry => entry.note !== note);
+	}
+
+	canUndo(): boolean {
+		return this.entries.length > 0;
+	}
+
+	clear(): void {
+		this.entries = [];
+	}
+}
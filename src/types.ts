@@ -1,38 +1,221 @@
 import type { Plugin } from 'obsidian';
 
 import type { StateManager } from './state/stateManager';
+import type { ContextIndex } from './services/contextIndex';
+import type { ReviewLogService } from './services/reviewLogService';
+import type { UndoableQueue, UndoStack } from './state/undoStack';
+import type { ActionTypeUsageHistory, ActionTypeUsageTracker } from './state/actionTypeUsageTracker';
+import type { DailyProgress, DailyProgressTracker } from './state/dailyProgressTracker';
 
 export interface SeeYouAgainSettings {
 	lastProcessedNote: string;
 	currentModalNote: string;
+	/** Weights keyed by action type id (built-in or custom) */
+	actionTypeWeights: Record<string, number>;
+	contextActionTypeWeights: Record<string, Record<string, number>>;
+	actionTypeUsageHistory: Record<string, ActionTypeUsageHistory>;
+	actionTypeUsageWindowDays: number;
+	customActionTypes: CustomActionTypeDefinition[];
+	queueLocation: QueueLocation;
+	contextGroups: ContextGroup[];
+	contextKeysMigrated: boolean;
+	/** Context keys in the old dash-sanitized format that are still to be migrated, null until they are recorded */
+	legacyContextKeys: string[] | null;
+	contextAvailability: Record<string, ContextAvailability>;
+	/** Hour (0-23) at which a new day starts */
+	dayRolloverHour: number;
+	/** IANA time zone days are counted in, empty for the device's local time */
+	timeZone: string;
+	contextQuotas: Record<string, ContextQuota>;
+	/** Notes per queue session after which the queue suggests stopping, 0 for no goal */
+	sessionGoal: number;
+	dailyProgress: DailyProgress;
+	/** Memorize notes that were never reviewed introduced per day, across all contexts */
+	newCardsPerDay: number;
+	reviewOrder: ReviewOrder;
+	/** Where memorize notes find question/answer lines that are reviewed as separate cards */
+	subCardSources: SubCardSource[];
+	/** Contexts (including their sub-contexts) whose memorize notes are also asked in reverse */
+	reverseCardContexts: string[];
+	schedulingParameters: SchedulingParameters;
+	/** Contexts with their own scheduling parameters instead of the global ones */
+	contextSchedulingParameters: Record<string, SchedulingParameters>;
+	/** Remapped queue shortcut keys; shortcuts not listed use their default key */
+	queueShortcuts: Partial<Record<QueueShortcutAction, string>>;
 }
 
 export interface SeeYouAgainPlugin extends Plugin {
 	settings: SeeYouAgainSettings;
 	saveSettings(): Promise<void>;
 	stateManager: StateManager;
+	contextIndex: ContextIndex;
+	reviewLog: ReviewLogService;
+	activeQueue: UndoableQueue | null;
+	queueUndoStack: UndoStack;
+	actionTypeUsage: ActionTypeUsageTracker;
+	dailyProgress: DailyProgressTracker;
+	openQueue(sanitizedContexts: string[]): Promise<void>;
+	activateStatisticsView(): Promise<void>;
 }
 
 export const DEFAULT_SETTINGS: SeeYouAgainSettings = {
 	lastProcessedNote: '',
-	currentModalNote: ''
+	currentModalNote: '',
+	actionTypeWeights: {},
+	contextActionTypeWeights: {},
+	actionTypeUsageHistory: {},
+	actionTypeUsageWindowDays: 14,
+	customActionTypes: [],
+	queueLocation: 'modal',
+	contextGroups: [],
+	contextKeysMigrated: false,
+	legacyContextKeys: null,
+	contextAvailability: {},
+	dayRolloverHour: 4,
+	timeZone: '',
+	contextQuotas: {},
+	sessionGoal: 0,
+	dailyProgress: { day: '', counts: {} },
+	newCardsPerDay: 20,
+	reviewOrder: 'random',
+	subCardSources: ['inline'],
+	reverseCardContexts: [],
+	schedulingParameters: {
+		desiredRetention: 0.9,
+		maximumIntervalDays: 36500,
+		enableFuzz: false,
+		weights: null
+	},
+	contextSchedulingParameters: {},
+	queueShortcuts: {}
 };
 
-export type ActionType = 'look-at' | 'memorize' | 'iterate' | 'schedule' | 'evaluate';
+/**
+ * Where the context queue opens: a modal, a tab in the right sidebar or a tab in the main area
+ */
+export type QueueLocation = 'modal' | 'sidebar' | 'tab';
+
+/**
+ * Order in which due memorize notes come up: most overdue first, lowest retrievability first or random
+ */
+export type ReviewOrder = 'overdue' | 'retrievability' | 'random';
+
+/**
+ * Parts of a memorize note body that become separate cards:
+ * "question :: answer" lines, headings followed by a list, table rows, or highlights as cloze deletions
+ */
+export type SubCardSource = 'inline' | 'heading-list' | 'table' | 'highlight';
+
+/**
+ * Parameters of the FSRS scheduler used for memorize notes
+ */
+export interface SchedulingParameters {
+	/** Probability of still remembering a note when it comes up again (0.7-0.99); higher means shorter intervals */
+	desiredRetention: number;
+	maximumIntervalDays: number;
+	/** Slightly randomize intervals so notes learned together don't stay due together */
+	enableFuzz: boolean;
+	/** Custom FSRS weights (e.g. from an optimizer), or null for the defaults */
+	weights: number[] | null;
+}
+
+/**
+ * Queue buttons that can be triggered with a single key
+ */
+export type QueueShortcutAction =
+	| 'reveal'
+	| 'grade-again'
+	| 'grade-hard'
+	| 'grade-good'
+	| 'grade-easy'
+	| 'next'
+	| 'jump-to-note'
+	| 'remove-context';
+
+/**
+ * A saved set of contexts that can be started as one queue
+ */
+export interface ContextGroup {
+	name: string;
+	contexts: string[];
+}
+
+/**
+ * When a context applies; every rule that is set must match for the context to be active
+ */
+export interface ContextAvailability {
+	/** Daily time window in HH:MM, only used when both ends are set */
+	startTime: string | null;
+	endTime: string | null;
+	/** Days of the week (0 = Sunday); empty means every day */
+	weekdays: number[];
+	/** Inclusive date range in yyyy-mm-dd */
+	startDate: string | null;
+	endDate: string | null;
+}
+
+/**
+ * How many notes a context shows per day; null means unlimited
+ */
+export interface ContextQuota {
+	notesPerDay: number | null;
+	memorizePerDay: number | null;
+}
+
+/**
+ * One of the built-in action types
+ */
+export type ActionType = 'look-at' | 'do' | 'memorize' | 'iterate' | 'schedule' | 'improve' | 'evaluate';
+
+/**
+ * Id of a custom action type defined in settings; only the ActionTypeRegistry hands these out
+ */
+export type CustomActionTypeId = string & { readonly __brand: 'CustomActionTypeId' };
+
+/**
+ * A built-in action type or the id of a custom action type, as stored in frontmatter
+ */
+export type ActionTypeId = ActionType | CustomActionTypeId;
+
+export type CustomActionButton = 'jump' | 'remove' | 'delete' | 'next' | 'done';
+
+export interface CustomActionTypeDefinition {
+	id: CustomActionTypeId;
+	label: string;
+	prompt: string;
+	buttons: CustomActionButton[];
+	textInput: boolean;
+	weight: number;
+}
 
 export interface ContextEntry {
 	context: string;
-	action: ActionType;
+	action: ActionTypeId;
 }
 
 export interface SeeYouAgainFrontmatter {
-	[context: string]: ActionType;
+	[context: string]: ActionTypeId;
+}
+
+export interface ActionOption {
+	value: ActionTypeId;
+	label: string;
 }
 
-export const ACTION_OPTIONS: { value: ActionType; label: string }[] = [
+export const ACTION_OPTIONS: ActionOption[] = [
 	{ value: 'look-at', label: 'Look At' },
+	{ value: 'do', label: 'Do' },
 	{ value: 'memorize', label: 'Memorize' },
 	{ value: 'iterate', label: 'Iterate' },
 	{ value: 'schedule', label: 'Schedule' },
+	{ value: 'improve', label: 'Improve' },
 	{ value: 'evaluate', label: 'Evaluate'}
 ];
+
+export const CUSTOM_ACTION_BUTTON_OPTIONS: { value: CustomActionButton; label: string }[] = [
+	{ value: 'jump', label: 'Jump to Note' },
+	{ value: 'remove', label: 'Remove Context' },
+	{ value: 'delete', label: 'Delete Note' },
+	{ value: 'next', label: 'Next' },
+	{ value: 'done', label: 'Done' }
+];
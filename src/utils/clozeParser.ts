@@ -0,0 +1,78 @@
+/**
+ * A cloze deletion: one or more hidden parts of a note body that are asked together as a single card
+ */
+export interface Cloze {
+	/** Card id of the cloze, e.g. "c1" */
+	id: string;
+	answers: string[];
+}
+
+/** Anki-style cloze, e.g. {{c1::Paris}} or {{c1::Paris::capital}} with a hint */
+const NUMBERED_CLOZE_PATTERN = /\{\{c(\d+)::([\s\S]*?)(?:::([\s\S]*?))?\}\}/;
+/** Obsidian highlight, e.g. ==Paris== */
+const HIGHLIGHT_PATTERN = /==([^=\n]+?)==/;
+
+export class ClozeParser {
+	/**
+	 * Find the clozes of a note body, in order
+	 * Numbered clozes ({{c1::...}}) take precedence; without them every highlight (==...==) is its own cloze,
+	 * if highlights are enabled as clozes, since many notes use them just for emphasis
+	 */
+	static parse(content: string, includeHighlights: boolean): Cloze[] {
+		const numbered = new Map<number, string[]>();
+		this.findAll(content, NUMBERED_CLOZE_PATTERN).forEach(match => {
+			const clozeNumber = Number(match[1]);
+			numbered.set(clozeNumber, [...(numbered.get(clozeNumber) ?? []), match[2]]);
+		});
+
+		if (numbered.size > 0) {
+			return Array.from(numbered.keys())
+				.sort((a, b) => a - b)
+				.map(clozeNumber => ({ id: `c${clozeNumber}`, answers: numbered.get(clozeNumber) ?? [] }));
+		}
+
+		if (!includeHighlights) {
+			return [];
+		}
+		return this.findAll(content, HIGHLIGHT_PATTERN)
+			.map((match, index) => ({ id: `c${index + 1}`, answers: [match[1]] }));
+	}
+
+	/**
+	 * Render a note body for reviewing one cloze: its answers are blanked out (or highlighted once revealed),
+	 * all other clozes show their answers as plain text
+	 */
+	static mask(content: string, activeId: string, isRevealed: boolean): string {
+		const renderCloze = (id: string, answer: string, hint?: string): string => {
+			if (id !== activeId) {
+				return answer;
+			}
+			if (isRevealed) {
+				return `==${answer}==`;
+			}
+			return `**[${hint !== undefined && hint.trim() !== '' ? hint : '…'}]**`;
+		};
+
+		if (NUMBERED_CLOZE_PATTERN.test(content)) {
+			return content.replace(this.global(NUMBERED_CLOZE_PATTERN), (_match, clozeNumber: string, answer: string, hint?: string) =>
+				renderCloze(`c${clozeNumber}`, answer, hint));
+		}
+
+		let index = 0;
+		return content.replace(this.global(HIGHLIGHT_PATTERN), (_match, answer: string) => renderCloze(`c${++index}`, answer));
+	}
+
+	private static findAll(content: string, pattern: RegExp): RegExpExecArray[] {
+		const globalPattern = this.global(pattern);
+		const matches: RegExpExecArray[] = [];
+		let match: RegExpExecArray | null;
+		while ((match = globalPattern.exec(content)) !== null) {
+			matches.push(match);
+		}
+		return matches;
+	}
+
+	private static global(pattern: RegExp): RegExp {
+		return new RegExp(pattern.source, 'g');
+	}
+}
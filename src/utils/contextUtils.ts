@@ -1,26 +1,38 @@
+/**
+ * Separates the levels of a hierarchical context, e.g. "when studying chinese/grammar"
+ */
+export const CONTEXT_PATH_SEPARATOR = '/';
+
 export class ContextUtils {
 	/**
-	 * Sanitize context for use as frontmatter key
-	 * Converts to lowercase and replaces non-alphanumeric characters with dashes
+	 * Normalize context for use as frontmatter key
+	 * Keys keep the exact user input (case, unicode and punctuation); only whitespace around each level is trimmed
+	 * YAML quotes keys where needed, so any text is a valid key
 	 */
 	static sanitizeContextKey(context: string): string {
 		return context
-			.toLowerCase()
-			.trim()
-			// Replace sequences of non-alphanumeric characters with single dashes
-			.replace(/[^a-z0-9]+/g, '-')
-			// Remove leading/trailing dashes
-			.replace(/^-+|-+$/g, '')
+			.split(CONTEXT_PATH_SEPARATOR)
+			.map(segment => segment.trim())
+			.filter(segment => segment !== '')
+			.join(CONTEXT_PATH_SEPARATOR)
 			// Ensure we don't end up with an empty string
 			|| 'context';
 	}
 
 	/**
 	 * Hydrate context key back to human-readable format
-	 * Converts dashes back to spaces for display
+	 * Keys are stored as typed, so they display unchanged
 	 */
 	static hydrateContextKey(sanitizedContext: string): string {
-		return sanitizedContext.replace(/-/g, ' ');
+		return sanitizedContext;
+	}
+
+	/**
+	 * Convert a key from the old dash-sanitized format (e.g. "when-bored") to the lossless format
+	 * The original casing and punctuation can't be recovered, so dashes become spaces as they were displayed
+	 */
+	static migrateLegacyContextKey(legacyKey: string): string {
+		return this.sanitizeContextKey(legacyKey.replace(/-/g, ' '));
 	}
 
 	/**
@@ -38,4 +50,62 @@ export class ContextUtils {
 	static dehydrateContext(hydratedContext: string): string {
 		return this.sanitizeContextKey(hydratedContext);
 	}
+
+	/**
+	 * Get the parent of a hierarchical context, or null for a top-level context
+	 */
+	static getParentContext(context: string): string | null {
+		const separatorIndex = context.lastIndexOf(CONTEXT_PATH_SEPARATOR);
+		return separatorIndex === -1 ? null : context.slice(0, separatorIndex);
+	}
+
+	/**
+	 * Get all ancestors of a hierarchical context, outermost first
+	 */
+	static getAncestorContexts(context: string): string[] {
+		const ancestors: string[] = [];
+		let parent = this.getParentContext(context);
+		while (parent !== null) {
+			ancestors.unshift(parent);
+			parent = this.getParentContext(parent);
+		}
+		return ancestors;
+	}
+
+	/**
+	 * Check whether a context is the given ancestor itself or nested anywhere below it
+	 */
+	static isSameOrDescendant(context: string, ancestor: string): boolean {
+		return context === ancestor || context.startsWith(ancestor + CONTEXT_PATH_SEPARATOR);
+	}
+
+	/**
+	 * Nesting depth of a context (0 for top-level contexts)
+	 */
+	static getDepth(context: string): number {
+		return context.split(CONTEXT_PATH_SEPARATOR).length - 1;
+	}
+
+	/**
+	 * Last level of a hierarchical context, e.g. "grammar" for "when studying chinese/grammar"
+	 */
+	static getLeafName(context: string): string {
+		return context.slice(context.lastIndexOf(CONTEXT_PATH_SEPARATOR) + 1);
+	}
+
+	/**
+	 * Sort contexts so that every context directly follows its parent (tree order)
+	 */
+	static sortAsTree(contexts: string[]): string[] {
+		return [...contexts].sort((a, b) => {
+			const aSegments = a.split(CONTEXT_PATH_SEPARATOR);
+			const bSegments = b.split(CONTEXT_PATH_SEPARATOR);
+			for (let i = 0; i < Math.min(aSegments.length, bSegments.length); i++) {
+				if (aSegments[i] !== bSegments[i]) {
+					return aSegments[i] < bSegments[i] ? -1 : 1;
+				}
+			}
+			return aSegments.length - bSegments.length;
+		});
+	}
 }
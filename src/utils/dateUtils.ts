@@ -1,24 +1,59 @@
 /**
- * Date utilities for handling "human days" where the day changes at 4am instead of midnight
+ * Date utilities for handling "human days" where the day changes at a configurable hour (4am by default) instead of midnight
+ *
+ * Human days and times of day are read in the configured time zone, or the device's local time if none is set,
+ * so travelling doesn't shift which day an evening session belongs to.
  */
 export class DateUtils {
+	private static rolloverHour = 4;
+	private static timeZone = '';
+
+	/**
+	 * Apply the day rollover hour (0-23) and IANA time zone (empty for local time) from the settings
+	 */
+	static configure(rolloverHour: number, timeZone: string): void {
+		this.rolloverHour = Number.isInteger(rolloverHour) && rolloverHour >= 0 && rolloverHour <= 23 ? rolloverHour : 4;
+		this.timeZone = this.isValidTimeZone(timeZone) ? timeZone : '';
+	}
+
 	/**
-	 * Get the current "human day" - if it's before 4am, it's still "yesterday"
+	 * Check if a string is a time zone name the runtime knows, e.g. "Europe/Berlin"
+	 */
+	static isValidTimeZone(timeZone: string): boolean {
+		if (!timeZone) {
+			return false;
+		}
+		try {
+			new Intl.DateTimeFormat('en-US', { timeZone });
+			return true;
+		} catch (error) {
+			return false;
+		}
+	}
+
+	/**
+	 * Get the current "human day" - if it's before the rollover hour, it's still "yesterday"
 	 * Returns date in yyyy-mm-dd format
 	 */
-	static getCurrentHumanDay(): string {
-		const now = new Date();
-		
-		// If it's before 4am, subtract a day to get "yesterday"
-		if (now.getHours() < 4) {
-			const yesterday = new Date(now);
-			yesterday.setDate(yesterday.getDate() - 1);
-			return this.formatDate(yesterday);
+	static getCurrentHumanDay(now: Date = new Date()): string {
+		return this.formatDate(this.getHumanDate(now));
+	}
+
+	/**
+	 * Get the calendar date of the "human day" a moment belongs to, as a local Date at midnight
+	 */
+	static getHumanDate(now: Date = new Date()): Date {
+		const clock = this.getWallClock(now);
+		const humanDate = new Date(clock.year, clock.month - 1, clock.day);
+
+		// If it's before the rollover hour, subtract a day to get "yesterday"
+		if (clock.hour < this.rolloverHour) {
+			humanDate.setDate(humanDate.getDate() - 1);
 		}
-		
-		return this.formatDate(now);
+
+		return humanDate;
 	}
-	
+
 	/**
 	 * Format a Date object to yyyy-mm-dd string
 	 */
@@ -63,4 +98,107 @@ export class DateUtils {
 		const date = new Date(dateString + 'T00:00:00');
 		return !isNaN(date.getTime()) && dateString === this.formatDate(date);
 	}
-}
\ No newline at end of file
+
+	/**
+	 * Get the human day (yyyy-mm-dd) of a seen value, which is either a full timestamp or a plain date
+	 */
+	static toHumanDay(seen: string): string | null {
+		if (this.isValidDateString(seen)) {
+			return seen;
+		}
+		const date = new Date(seen);
+		return isNaN(date.getTime()) ? null : this.getCurrentHumanDay(date);
+	}
+
+	/**
+	 * Number of whole days from one yyyy-mm-dd date string to another
+	 */
+	static daysBetween(fromDateString: string, toDateString: string): number {
+		const from = new Date(fromDateString + 'T00:00:00');
+		const to = new Date(toDateString + 'T00:00:00');
+		return Math.round((to.getTime() - from.getTime()) / (24 * 60 * 60 * 1000));
+	}
+
+	/**
+	 * Shift a yyyy-mm-dd date string by a number of days
+	 */
+	static addDays(dateString: string, days: number): string {
+		const date = new Date(dateString + 'T00:00:00');
+		date.setDate(date.getDate() + days);
+		return this.formatDate(date);
+	}
+
+	/**
+	 * Parse a time of day in HH:MM format to minutes since midnight, or null if invalid
+	 */
+	static parseTimeOfDay(time: string): number | null {
+		const match = /^(\d{1,2}):(\d{2})$/.exec(time.trim());
+		if (!match) {
+			return null;
+		}
+
+		const hours = Number(match[1]);
+		const minutes = Number(match[2]);
+		if (hours > 23 || minutes > 59) {
+			return null;
+		}
+		return hours * 60 + minutes;
+	}
+
+	/**
+	 * Check if a moment lies within a daily time window (HH:MM, start inclusive, end exclusive)
+	 * Windows whose end is before their start wrap past midnight, e.g. 22:00-02:00
+	 */
+	static isWithinTimeWindow(startTime: string, endTime: string, now: Date = new Date()): boolean {
+		const start = this.parseTimeOfDay(startTime);
+		const end = this.parseTimeOfDay(endTime);
+		if (start === null || end === null) {
+			return false;
+		}
+
+		const clock = this.getWallClock(now);
+		const current = clock.hour * 60 + clock.minute;
+		if (start <= end) {
+			return current >= start && current < end;
+		}
+		return current >= start || current < end;
+	}
+
+	/**
+	 * Read the calendar date and time of a moment in the configured time zone
+	 */
+	private static getWallClock(now: Date): { year: number; month: number; day: number; hour: number; minute: number } {
+		if (!this.timeZone) {
+			return {
+				year: now.getFullYear(),
+				month: now.getMonth() + 1,
+				day: now.getDate(),
+				hour: now.getHours(),
+				minute: now.getMinutes()
+			};
+		}
+
+		const parts: Record<string, number> = {};
+		new Intl.DateTimeFormat('en-US', {
+			timeZone: this.timeZone,
+			year: 'numeric',
+			month: 'numeric',
+			day: 'numeric',
+			hour: 'numeric',
+			minute: 'numeric',
+			hourCycle: 'h23'
+		}).formatToParts(now).forEach(part => {
+			if (part.type !== 'literal') {
+				parts[part.type] = Number(part.value);
+			}
+		});
+
+		return {
+			year: parts.year,
+			month: parts.month,
+			day: parts.day,
+			hour: parts.hour,
+			minute: parts.minute
+		};
+	}
+}
@@ -0,0 +1,14 @@
+export class HashUtils {
+	/**
+	 * Fast non-cryptographic hash (32-bit FNV-1a) of a string, as hex
+	 * Used to detect whether note content changed, not for security
+	 */
+	static hashContent(content: string): string {
+		let hash = 0x811c9dc5;
+		for (let i = 0; i < content.length; i++) {
+			hash ^= content.charCodeAt(i);
+			hash = Math.imul(hash, 0x01000193);
+		}
+		return (hash >>> 0).toString(16).padStart(8, '0');
+	}
+}
@@ -0,0 +1,119 @@
+import type { SubCardSource } from '../types';
+import { HashUtils } from './hashUtils';
+
+/**
+ * A question/answer pair within a note body, reviewed as its own card
+ */
+export interface QACard {
+	/** Card id derived from the question, so it stays stable when other lines of the note change */
+	id: string;
+	front: string;
+	back: string;
+}
+
+/** Inline card, e.g. "term :: definition", optionally as a list item; needs spaces around "::" to not match Dataview fields */
+const INLINE_CARD_PATTERN = /^\s*(?:[-*+]\s+|\d+\.\s+)?(.+?)\s+::\s+(.+)$/;
+const HEADING_PATTERN = /^#{1,6}\s+(.+?)\s*#*\s*$/;
+const LIST_ITEM_PATTERN = /^\s*(?:[-*+]|\d+\.)\s+/;
+const TABLE_SEPARATOR_PATTERN = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+export class QACardParser {
+	/**
+	 * Find the question/answer cards of a note body, in order of appearance:
+	 * - inline: every "question :: answer" line
+	 * - heading-list: a heading whose section only consists of list items, with the heading as question and the list as answer
+	 * - table: every table row, with the first cell as question and the other cells as answer
+	 */
+	static parse(content: string, sources: SubCardSource[]): QACard[] {
+		const lines = content.split('\n');
+		const cards: { line: number; front: string; back: string }[] = [];
+
+		if (sources.includes('inline')) {
+			lines.forEach((line, index) => {
+				const match = INLINE_CARD_PATTERN.exec(line);
+				// Cloze deletions also contain "::"
+				if (match && !line.includes('{{')) {
+					cards.push({ line: index, front: match[1].trim(), back: match[2].trim() });
+				}
+			});
+		}
+		if (sources.includes('heading-list')) {
+			cards.push(...this.parseHeadingLists(lines, sources.includes('inline')));
+		}
+		if (sources.includes('table')) {
+			cards.push(...this.parseTables(lines));
+		}
+
+		// Questions that appear more than once get a numbered id, so each keeps its own schedule
+		const idCounts = new Map<string, number>();
+		return cards
+			.sort((a, b) => a.line - b.line)
+			.map(card => {
+				const baseId = `q-${HashUtils.hashContent(card.front)}`;
+				const count = (idCounts.get(baseId) ?? 0) + 1;
+				idCounts.set(baseId, count);
+				return { id: count === 1 ? baseId : `${baseId}-${count}`, front: card.front, back: card.back };
+			});
+	}
+
+	private static parseHeadingLists(lines: string[], skipInlineCards: boolean): { line: number; front: string; back: string }[] {
+		const cards: { line: number; front: string; back: string }[] = [];
+
+		lines.forEach((line, index) => {
+			const heading = HEADING_PATTERN.exec(line);
+			if (!heading) {
+				return;
+			}
+
+			const section: string[] = [];
+			for (let i = index + 1; i < lines.length && !HEADING_PATTERN.test(lines[i]); i++) {
+				section.push(lines[i]);
+			}
+			const contentLines = section.filter(sectionLine => sectionLine.trim() !== '');
+			// Indented lines continue or nest a list item
+			const isList = contentLines.length > 0 &&
+				LIST_ITEM_PATTERN.test(contentLines[0]) &&
+				contentLines.every(sectionLine => LIST_ITEM_PATTERN.test(sectionLine) || /^\s+/.test(sectionLine));
+			const hasInlineCards = skipInlineCards && contentLines.some(sectionLine => INLINE_CARD_PATTERN.test(sectionLine));
+
+			if (isList && !hasInlineCards) {
+				cards.push({ line: index, front: heading[1], back: contentLines.join('\n') });
+			}
+		});
+
+		return cards;
+	}
+
+	private static parseTables(lines: string[]): { line: number; front: string; back: string }[] {
+		const cards: { line: number; front: string; back: string }[] = [];
+
+		lines.forEach((line, index) => {
+			// A table starts with a header row directly followed by a separator row
+			const separator = lines[index + 1];
+			if (!line.includes('|') || separator === undefined || !separator.includes('-') || !TABLE_SEPARATOR_PATTERN.test(separator)) {
+				return;
+			}
+
+			const headers = this.splitTableRow(line);
+			for (let i = index + 2; i < lines.length && lines[i].includes('|'); i++) {
+				const cells = this.splitTableRow(lines[i]);
+				if (cells.length < 2 || cells[0] === '') {
+					continue;
+				}
+
+				// Label answers with their column header if the row has several of them
+				const answers = cells.slice(1).map((cell, cellIndex) => {
+					const header = headers[cellIndex + 1] ?? '';
+					return cells.length > 2 && header !== '' ? `**${header}:** ${cell}` : cell;
+				});
+				cards.push({ line: i, front: cells[0], back: answers.join('\n\n') });
+			}
+		});
+
+		return cards;
+	}
+
+	private static splitTableRow(row: string): string[] {
+		return row.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => cell.trim());
+	}
+}
@@ -0,0 +1,140 @@
+import type { TFile, ViewStateResult, WorkspaceLeaf } from 'obsidian';
+import { ItemView, ButtonComponent, Scope } from 'obsidian';
+
+import type { SeeYouAgainPlugin } from '../types';
+import type { ContextQueueHost } from '../components/contextQueueSession';
+import { ContextQueueSession } from '../components/contextQueueSession';
+import { ContextBrowserModal } from '../modals/contextBrowserModal';
+
+export const VIEW_TYPE_CONTEXT_QUEUE = 'see-you-again-queue';
+
+interface ContextQueueViewState {
+	contexts: string[];
+}
+
+/**
+ * Workspace view hosting the context queue, so notes can be edited side-by-side.
+ * The current note is kept open in a neighbouring leaf and follows the queue.
+ */
+export class ContextQueueView extends ItemView implements ContextQueueHost {
+	private plugin: SeeYouAgainPlugin;
+	private session: ContextQueueSession | null = null;
+	private noteLeaf: WorkspaceLeaf | null = null;
+
+	constructor(leaf: WorkspaceLeaf, plugin: SeeYouAgainPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+		// Queue shortcuts apply while the view is focused
+		this.scope = new Scope(this.app.scope);
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_CONTEXT_QUEUE;
+	}
+
+	getDisplayText(): string {
+		return this.session ? `Queue: ${this.session.label}` : 'Context queue';
+	}
+
+	getIcon(): string {
+		return 'swords';
+	}
+
+	onOpen(): Promise<void> {
+		this.contentEl.addClass('see-you-again-view');
+		if (!this.session) {
+			this.renderEmptyState();
+		}
+		return Promise.resolve();
+	}
+
+	onClose(): Promise<void> {
+		this.session?.destroy();
+		this.session = null;
+		return Promise.resolve();
+	}
+
+	getState(): Record<string, unknown> {
+		const state = super.getState();
+		if (this.session) {
+			state.contexts = this.session.sanitizedContexts;
+		}
+		return state;
+	}
+
+	async setState(state: unknown, result: ViewStateResult): Promise<void> {
+		if (this.isQueueState(state) && state.contexts.join('\n') !== this.session?.sanitizedContexts.join('\n')) {
+			await this.startQueue(state.contexts);
+		}
+		await super.setState(state, result);
+	}
+
+	/**
+	 * Start a new queue session for one or more contexts, replacing the current one
+	 */
+	async startQueue(sanitizedContexts: string[]): Promise<void> {
+		this.session?.destroy();
+		this.session = new ContextQueueSession(this.app, this.plugin, this, sanitizedContexts);
+		if (this.scope) {
+			this.session.registerShortcuts(this.scope);
+		}
+		await this.session.start(null);
+	}
+
+	changeContext(): void {
+		// The browser reopens the queue in this view via the plugin
+		new ContextBrowserModal(this.app, this.plugin).open();
+	}
+
+	async jumpToNote(note: TFile): Promise<void> {
+		const leaf = this.getNoteLeaf();
+		await leaf.openFile(note);
+		this.app.workspace.setActiveLeaf(leaf, { focus: true });
+	}
+
+	async onNoteShown(note: TFile): Promise<void> {
+		// Follow the queue in the neighbouring leaf without stealing focus
+		await this.getNoteLeaf().openFile(note, { active: false });
+	}
+
+	close(): void {
+		this.session?.destroy();
+		this.session = null;
+		this.renderEmptyState();
+	}
+
+	private renderEmptyState(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		const emptyState = contentEl.createEl('div');
+		emptyState.className = 'context-note-viewer-no-notes';
+		emptyState.createEl('p', { text: 'No queue running.' });
+
+		const startButton = new ButtonComponent(emptyState);
+		startButton.setButtonText('Start queue for context...');
+		startButton.onClick(() => this.changeContext());
+	}
+
+	/**
+	 * Get the leaf the current note is shown in, creating one next to the queue if needed
+	 */
+	private getNoteLeaf(): WorkspaceLeaf {
+		const isStillOpen = this.noteLeaf !== null && this.app.workspace.getLeavesOfType('markdown').includes(this.noteLeaf);
+		if (this.noteLeaf === null || !isStillOpen) {
+			// In the main area, split next to the queue; from a sidebar, use the main area
+			this.noteLeaf = this.leaf.getRoot() === this.app.workspace.rootSplit
+				? this.app.workspace.getLeaf('split')
+				: this.app.workspace.getLeaf(false);
+		}
+		return this.noteLeaf;
+	}
+
+	private isQueueState(state: unknown): state is ContextQueueViewState {
+		if (state === null || typeof state !== 'object') {
+			return false;
+		}
+		const obj = state as Record<string, unknown>;
+		return Array.isArray(obj.contexts) && obj.contexts.every(context => typeof context === 'string');
+	}
+}
@@ -0,0 +1,213 @@
+import type { WorkspaceLeaf } from 'obsidian';
+import { ItemView, ButtonComponent } from 'obsidian';
+
+import type { SeeYouAgainPlugin } from '../types';
+import type { CardStateName, RetentionStatistics, Statistics } from '../services/statisticsService';
+import { StatisticsService } from '../services/statisticsService';
+import { ActionTypeRegistry } from '../config/actionTypeRegistry';
+import { ContextUtils } from '../utils/contextUtils';
+import { DateUtils } from '../utils/dateUtils';
+
+export const VIEW_TYPE_STATISTICS = 'see-you-again-statistics';
+
+/** Number of weeks shown in the review heatmap */
+const HEATMAP_WEEKS = 20;
+
+const CARD_STATE_LABELS: [CardStateName, string][] = [
+	['new', 'New'],
+	['learning', 'Learning'],
+	['review', 'Review'],
+	['relearning', 'Relearning']
+];
+
+/**
+ * Workspace view with statistics about contexts, memorize cards and the review history
+ */
+export class StatisticsView extends ItemView {
+	private plugin: SeeYouAgainPlugin;
+	private statisticsService: StatisticsService;
+
+	constructor(leaf: WorkspaceLeaf, plugin: SeeYouAgainPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+		this.statisticsService = new StatisticsService(plugin);
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_STATISTICS;
+	}
+
+	getDisplayText(): string {
+		return 'See You Again statistics';
+	}
+
+	getIcon(): string {
+		return 'bar-chart';
+	}
+
+	async onOpen(): Promise<void> {
+		this.contentEl.addClass('see-you-again-statistics');
+		await this.refresh();
+	}
+
+	/**
+	 * Recompute and re-render all statistics
+	 */
+	async refresh(): Promise<void> {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.createEl('p', { text: 'Calculating statistics...' });
+
+		try {
+			const statistics = await this.statisticsService.compute();
+			this.render(statistics);
+		} catch (error) {
+			contentEl.empty();
+			contentEl.createEl('p', { text: 'Error calculating statistics' });
+		}
+	}
+
+	private render(statistics: Statistics): void {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		const header = contentEl.createEl('div');
+		header.className = 'statistics-header';
+		header.createEl('h2', { text: 'Statistics' });
+		const refreshButton = new ButtonComponent(header);
+		refreshButton.setButtonText('Refresh');
+		refreshButton.onClick(() => this.refresh());
+
+		this.renderOverview(contentEl, statistics);
+		this.renderContexts(contentEl, statistics);
+		this.renderCardStates(contentEl, statistics);
+		this.renderForecast(contentEl, statistics);
+		this.renderReviews(contentEl, statistics);
+	}
+
+	private renderOverview(containerEl: HTMLElement, statistics: Statistics): void {
+		containerEl.createEl('h3', { text: 'Overview' });
+		const percentage = statistics.totalNotes > 0
+			? Math.round((statistics.notesWithContexts / statistics.totalNotes) * 100)
+			: 0;
+
+		const table = containerEl.createEl('table');
+		this.addRow(table, ['Notes in vault', String(statistics.totalNotes)]);
+		this.addRow(table, ['Notes with contexts', `${statistics.notesWithContexts} (${percentage}%)`]);
+		this.addRow(table, ['Contexts', String(statistics.contexts.length)]);
+
+		const actionOptions = ActionTypeRegistry.getActionOptions(this.plugin.settings);
+		actionOptions.forEach(option => {
+			this.addRow(table, [`Action: ${option.label}`, String(statistics.actionTypes[option.value] ?? 0)]);
+		});
+	}
+
+	private renderContexts(containerEl: HTMLElement, statistics: Statistics): void {
+		containerEl.createEl('h3', { text: 'Notes per Context' });
+		if (statistics.contexts.length === 0) {
+			containerEl.createEl('p', { text: 'No contexts yet.' });
+			return;
+		}
+
+		// Only show columns for action types that are actually used
+		const actionOptions = ActionTypeRegistry.getActionOptions(this.plugin.settings)
+			.filter(option => (statistics.actionTypes[option.value] ?? 0) > 0);
+
+		const table = containerEl.createEl('table');
+		this.addRow(table, ['Context', 'Notes', ...actionOptions.map(option => option.label)], true);
+
+		statistics.contexts.forEach(contextStatistics => {
+			const row = this.addRow(table, [
+				ContextUtils.getLeafName(ContextUtils.hydrateContextKey(contextStatistics.context)),
+				String(contextStatistics.notes),
+				...actionOptions.map(option => String(contextStatistics.actionTypes[option.value] ?? 0))
+			]);
+			row.setCssProps({ '--context-depth': String(ContextUtils.getDepth(contextStatistics.context)) });
+			row.addClass('statistics-context-row');
+		});
+	}
+
+	private renderCardStates(containerEl: HTMLElement, statistics: Statistics): void {
+		containerEl.createEl('h3', { text: 'Memorize Cards' });
+
+		const table = containerEl.createEl('table');
+		CARD_STATE_LABELS.forEach(([state, label]) => {
+			this.addRow(table, [label, String(statistics.cardStates[state])]);
+		});
+	}
+
+	private renderForecast(containerEl: HTMLElement, statistics: Statistics): void {
+		containerEl.createEl('h3', { text: `Due in the Next ${statistics.dueForecast.length} Days` });
+
+		const total = statistics.dueForecast.reduce((sum, day) => sum + day.count, 0);
+		containerEl.createEl('p', {
+			text: `${statistics.dueForecast[0]?.count ?? 0} due today, ${total} in total`,
+			cls: 'setting-item-description'
+		});
+
+		const maxCount = Math.max(1, ...statistics.dueForecast.map(day => day.count));
+		const chart = containerEl.createEl('div');
+		chart.className = 'statistics-forecast';
+
+		statistics.dueForecast.forEach(({ day, count }) => {
+			const bar = chart.createEl('div');
+			bar.className = 'statistics-forecast-bar';
+			bar.setAttribute('aria-label', `${day}: ${count}`);
+			bar.setCssProps({ '--bar-height': `${Math.round((count / maxCount) * 100)}%` });
+		});
+	}
+
+	private renderReviews(containerEl: HTMLElement, statistics: Statistics): void {
+		containerEl.createEl('h3', { text: 'Reviews' });
+
+		const table = containerEl.createEl('table');
+		this.addRow(table, ['Total reviews', String(statistics.totalReviews)]);
+		this.addRow(table, ['True retention (last 30 days)', this.formatRetention(statistics.retentionLast30Days)]);
+		this.addRow(table, ['True retention (all time)', this.formatRetention(statistics.retention)]);
+		this.addRow(table, ['Current streak', this.formatDays(statistics.currentStreak)]);
+		this.addRow(table, ['Longest streak', this.formatDays(statistics.longestStreak)]);
+
+		this.renderHeatmap(containerEl, statistics.reviewsPerDay);
+	}
+
+	/**
+	 * Grid of the last weeks with one cell per day (a column per week), shaded by number of reviews
+	 */
+	private renderHeatmap(containerEl: HTMLElement, reviewsPerDay: Record<string, number>): void {
+		const today = DateUtils.getCurrentHumanDay();
+		const todayWeekday = new Date(today + 'T00:00:00').getDay();
+		// Start on a Sunday so every column is one week
+		const start = DateUtils.addDays(today, -(HEATMAP_WEEKS - 1) * 7 - todayWeekday);
+		const maxCount = Math.max(1, ...Object.values(reviewsPerDay));
+
+		const heatmap = containerEl.createEl('div');
+		heatmap.className = 'statistics-heatmap';
+
+		for (let day = start; day <= today; day = DateUtils.addDays(day, 1)) {
+			const count = reviewsPerDay[day] ?? 0;
+			const level = count === 0 ? 0 : Math.ceil((count / maxCount) * 4);
+			const cell = heatmap.createEl('div');
+			cell.className = `statistics-heatmap-cell statistics-heatmap-level-${level}`;
+			cell.setAttribute('aria-label', `${day}: ${count} ${count === 1 ? 'review' : 'reviews'}`);
+		}
+	}
+
+	private addRow(table: HTMLElement, cells: string[], isHeader = false): HTMLElement {
+		const row = table.createEl('tr');
+		cells.forEach(text => {
+			row.createEl(isHeader ? 'th' : 'td', { text });
+		});
+		return row;
+	}
+
+	private formatRetention(retention: RetentionStatistics): string {
+		if (retention.reviews === 0) {
+			return '–';
+		}
+		return `${Math.round((retention.recalled / retention.reviews) * 100)}% (${retention.recalled} / ${retention.reviews})`;
+	}
+
+	private formatDays(days: number): string {
+		return `${days} ${days === 1 ? 'day' : 'days'}`;
+	}
+}